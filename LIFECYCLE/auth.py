@@ -0,0 +1,64 @@
+import os
+from datetime import datetime, timedelta, timezone
+from typing import Optional
+
+import jwt
+from fastapi import Depends, Header, HTTPException, Query, status
+
+from models import AuthUser
+
+# Access tokens are issued by the Node auth server (frontend-assessment/server/auth.js);
+# both servers must share its JWT_SECRET or every token here is rejected
+JWT_SECRET = os.getenv("JWT_SECRET")
+STAFF_ROLES = ["interviewer", "admin"]
+# Matches ACCESS_TOKEN_AUDIENCE in auth.js; invitation links and stream tokens share the secret but not the audience
+ACCESS_TOKEN_AUDIENCE = "access"
+# EventSource cannot send headers, so the event stream takes a short-lived token scoped to one session in its URL.
+# Its audience keeps it from passing as an access token; it only needs to be valid when the stream connects.
+STREAM_TOKEN_AUDIENCE = "session-stream"
+STREAM_TOKEN_TTL_SECONDS = 60
+
+if not JWT_SECRET:
+    print("[Auth] Warning: JWT_SECRET is not set; every authenticated request will be refused.")
+
+def current_user(authorization: Optional[str] = Header(None)) -> AuthUser:
+    """
+    Verifies the Bearer access token and returns who it was issued to.
+    401 (not 403) on a missing or expired token so clients know to refresh and retry.
+    """
+    scheme, _, token = (authorization or "").partition(" ")
+    if scheme.lower() != "bearer" or not token:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Access denied. No token provided.")
+    if not JWT_SECRET:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Invalid or expired token.")
+    try:
+        claims = jwt.decode(token, JWT_SECRET, algorithms=["HS256"], audience=ACCESS_TOKEN_AUDIENCE)
+    except jwt.PyJWTError:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Invalid or expired token.")
+    if "id" not in claims:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Invalid or expired token.")
+    return AuthUser(id=str(claims["id"]), email=claims.get("email"), role=claims.get("role") or "candidate")
+
+def issue_stream_token(session_id: str, user: AuthUser) -> str:
+    """Signs a token that lets this user open the session's event stream for the next STREAM_TOKEN_TTL_SECONDS"""
+    expires = datetime.now(timezone.utc) + timedelta(seconds=STREAM_TOKEN_TTL_SECONDS)
+    return jwt.encode({"id": user.id, "email": user.email, "role": user.role, "sid": session_id,
+                       "aud": STREAM_TOKEN_AUDIENCE, "exp": expires}, JWT_SECRET, algorithm="HS256")
+
+def stream_user(session_id: str, token: Optional[str] = Query(None)) -> AuthUser:
+    """Verifies the stream token in the query string and that it was issued for this session"""
+    if not token or not JWT_SECRET:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Access denied. No token provided.")
+    try:
+        claims = jwt.decode(token, JWT_SECRET, algorithms=["HS256"], audience=STREAM_TOKEN_AUDIENCE)
+    except jwt.PyJWTError:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Invalid or expired token.")
+    if claims.get("sid") != session_id:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="This token was issued for another session.")
+    return AuthUser(id=str(claims["id"]), email=claims.get("email"), role=claims.get("role") or "candidate")
+
+def require_staff(user: AuthUser = Depends(current_user)) -> AuthUser:
+    """Restricts a route to interviewers and admins"""
+    if user.role not in STAFF_ROLES:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="You do not have permission to perform this action.")
+    return user
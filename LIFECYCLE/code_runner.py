@@ -0,0 +1,60 @@
+import json
+import os
+import subprocess
+import tempfile
+from typing import List
+
+from models import CodeTestCase, TestCaseResult
+
+HARNESS_PATH = os.path.join(os.path.dirname(os.path.abspath(__file__)), "code_runner_harness.cjs")
+
+# Languages the server can execute; code questions in other languages go to the evaluator
+RUNNABLE_LANGUAGES = ["javascript"]
+CASE_TIMEOUT_MS = 2000
+# Optional unprivileged account to run the harness as (requires the server to start as root)
+RUNNER_USER = os.getenv("CODE_RUNNER_USER") or None
+
+def run_test_cases(code: str, entry_point: str, test_cases: List[CodeTestCase]) -> List[TestCaseResult]:
+    """
+    Runs a JavaScript answer against every test case (visible and hidden), each in its own V8 isolate
+    (isolated-vm) with no access to require, process, the filesystem or the network.
+    The harness itself runs in a short-lived subprocess with a stripped environment (no database
+    credentials), a memory cap, a hard timeout and, if CODE_RUNNER_USER is set, an unprivileged user.
+    Results come back through a private file descriptor rather than stdout, so nothing the answer
+    prints can pass for a result.
+    Returns an empty list if Node or the sandbox is unavailable, crashes or times out; the caller flags
+    the answer for manual review rather than scoring it.
+    """
+    if not test_cases:
+        return []
+
+    request = {
+        "code": code,
+        "entryPoint": entry_point,
+        "testCases": [case.dict() for case in test_cases],
+        "timeoutMs": CASE_TIMEOUT_MS
+    }
+    try:
+        with tempfile.TemporaryFile() as result_file:
+            result_fd = result_file.fileno()
+            completed = subprocess.run(
+                # isolated-vm does not support Node's startup snapshot
+                ["node", "--no-node-snapshot", "--max-old-space-size=64", HARNESS_PATH, str(result_fd)],
+                input=json.dumps(request),
+                capture_output=True,
+                text=True,
+                env={"PATH": os.environ.get("PATH", "")},
+                pass_fds=[result_fd],
+                user=RUNNER_USER,
+                timeout=CASE_TIMEOUT_MS / 1000 * len(test_cases) + 5
+            )
+            if completed.returncode != 0:
+                print(f"[Code Runner] Harness exited with {completed.returncode}: {completed.stderr.strip()}")
+                return []
+            result_file.seek(0)
+            results = json.loads(result_file.read())
+    except (OSError, subprocess.TimeoutExpired, json.JSONDecodeError) as e:
+        print(f"[Code Runner] Could not run test cases: {e}")
+        return []
+
+    return [TestCaseResult(**{**result, "runtimeMs": round(result["runtimeMs"], 2)}) for result in results]
@@ -0,0 +1,56 @@
+// Runs candidate JavaScript against test cases inside a fresh V8 isolate (isolated-vm).
+// Reads { code, entryPoint, testCases, timeoutMs } as JSON on stdin and writes a JSON array of
+// results to the file descriptor given as the first argument. Candidate code never sees that fd,
+// process or stdout, so it cannot forge results the way it could by escaping a vm context.
+const fs = require('fs');
+const ivm = require('isolated-vm');
+
+const RESULT_FD = Number(process.argv[2]);
+const ISOLATE_MEMORY_MB = 32;
+
+const isEqual = (a, b) => {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length && keysA.every(key => isEqual(a[key], b[key]));
+};
+
+let raw = '';
+process.stdin.on('data', chunk => { raw += chunk; });
+process.stdin.on('end', () => {
+    const { code, entryPoint, testCases, timeoutMs } = JSON.parse(raw);
+    const results = testCases.map(testCase => {
+        // New isolate per case so state cannot leak between cases; only the JSON input is copied in
+        const isolate = new ivm.Isolate({ memoryLimit: ISOLATE_MEMORY_MB });
+        const started = process.hrtime.bigint();
+        const base = { testId: testCase.testId, hidden: Boolean(testCase.hidden) };
+        try {
+            const context = isolate.createContextSync();
+            context.global.setSync('__input', JSON.stringify(testCase.input));
+            const output = context.evalSync(
+                `${code}\n;JSON.stringify(${entryPoint}(...JSON.parse(__input)));`,
+                { timeout: timeoutMs }
+            );
+            const actual = typeof output === 'string' ? JSON.parse(output) : undefined;
+            return {
+                ...base,
+                passed: isEqual(actual, testCase.expected),
+                runtimeMs: Number(process.hrtime.bigint() - started) / 1e6,
+                actual,
+            };
+        } catch (err) {
+            return {
+                ...base,
+                passed: false,
+                runtimeMs: Number(process.hrtime.bigint() - started) / 1e6,
+                error: err && err.message ? err.message : String(err),
+            };
+        } finally {
+            isolate.dispose();
+        }
+    });
+    fs.writeSync(RESULT_FD, JSON.stringify(results));
+    fs.closeSync(RESULT_FD);
+});
@@ -1,4 +1,4 @@
-from sqlalchemy import Column, Integer, String, DateTime, ForeignKey, Text, Numeric
+from sqlalchemy import Column, Integer, String, DateTime, ForeignKey, Text, Numeric, JSON
 from sqlalchemy.orm import declarative_base, relationship
 from sqlalchemy.sql import func
 
@@ -12,6 +12,62 @@ class DBUser(Base):
     password_hash = Column(Text, nullable=False)
     full_name = Column(String, nullable=False)
     created_at = Column(DateTime(timezone=True), server_default=func.now())
+    role = Column(String, nullable=False, default='candidate')
+
+class DBQuestion(Base):
+    __tablename__ = 'questions'
+    id = Column(Integer, primary_key=True, autoincrement=True)
+    text = Column(Text, nullable=False)
+    domain = Column(String, nullable=False)
+    difficulty = Column(Integer, nullable=False, default=1)
+    tags = Column(JSON, nullable=False, default=list)
+    rubric = Column(Text, nullable=True)
+    kind = Column(String, nullable=False, default='long_text')
+    options = Column(JSON, nullable=False, default=list)
+    language = Column(String, nullable=True)
+    starter_code = Column(Text, nullable=True)
+    answer_key = Column(JSON, nullable=False, default=dict)
+    entry_point = Column(String, nullable=True)
+    test_cases = Column(JSON, nullable=False, default=list)
+    status = Column(String, nullable=False, default='active')
+    created_by = Column(Integer, ForeignKey('users.id'), nullable=True)
+    created_at = Column(DateTime(timezone=True), server_default=func.now())
+    updated_at = Column(DateTime(timezone=True), server_default=func.now())
+
+class DBInvitation(Base):
+    __tablename__ = 'invitations'
+    id = Column(Integer, primary_key=True, autoincrement=True)
+    email = Column(String, nullable=False)
+    domain = Column(String, nullable=False)
+    deadline = Column(DateTime(timezone=True), nullable=False)
+    max_attempts = Column(Integer, nullable=False, default=1)
+    created_by = Column(Integer, ForeignKey('users.id'), nullable=True)
+    user_id = Column(Integer, ForeignKey('users.id'), nullable=True)
+    accepted_at = Column(DateTime(timezone=True), nullable=True)
+    consumed_at = Column(DateTime(timezone=True), nullable=True)
+    session_id = Column(String, nullable=True)
+    created_at = Column(DateTime(timezone=True), server_default=func.now())
+
+class DBProctoringPolicy(Base):
+    __tablename__ = 'proctoring_policies'
+    id = Column(Integer, primary_key=True, autoincrement=True)
+    scope = Column(String, nullable=False, unique=True) # 'assessment:<id>', 'domain:<id>' or 'default'
+    policy = Column(JSON, nullable=False, default=dict)
+    updated_at = Column(DateTime(timezone=True), server_default=func.now())
+
+class DBProctoringEvent(Base):
+    __tablename__ = 'proctoring_events'
+    id = Column(Integer, primary_key=True, autoincrement=True)
+    event_id = Column(String, nullable=False, unique=True)
+    user_id = Column(Integer, ForeignKey('users.id'), nullable=False)
+    assessment_session_id = Column(String, nullable=False)
+    timestamp = Column(DateTime(timezone=True), server_default=func.now())
+    event_type = Column(String, nullable=False)
+    severity = Column(String, nullable=False)
+    severity_score = Column(Integer, default=1)
+    question_index = Column(Integer, nullable=True)
+    message = Column(Text, nullable=True)
+    received_at = Column(DateTime(timezone=True), server_default=func.now())
 
 class DBInterviewSession(Base):
     __tablename__ = 'interview_sessions'
@@ -19,8 +75,12 @@ class DBInterviewSession(Base):
     user_id = Column(Integer, ForeignKey('users.id'), nullable=False)
     start_time = Column(DateTime(timezone=True), server_default=func.now(), nullable=False)
     end_time = Column(DateTime(timezone=True), nullable=True)
-    total_risk_score = Column(Numeric(5, 2), default=0.00)
+    total_risk_score = Column(Numeric(5, 2), default=0.00) # Proctoring violation score
     status = Column(String, default='IN_PROGRESS')
+    domain = Column(String, nullable=True)
+    total_score = Column(Numeric(6, 2), nullable=True) # Assessment score
+    termination_reason = Column(String, nullable=True) # Machine-readable, e.g. PROCTORING_LIMIT_EXCEEDED or QUESTION_TIME_EXPIRED
+    session_uuid = Column(String, nullable=True, unique=True) # The API's session id; ties proctoring events to the session's candidate
 
     evaluations = relationship("DBAnswerEvaluation", backref="session")
 
@@ -32,3 +92,4 @@ class DBAnswerEvaluation(Base):
     candidate_answer = Column(Text, nullable=True)
     ai_relevance_score = Column(Numeric(5, 2), nullable=True)
     ai_feedback = Column(Text, nullable=True)
+    test_results = Column(JSON, nullable=True)
@@ -1,6 +1,9 @@
 import random
+import re
 
-from typing import Tuple
+from typing import List, Optional, Tuple
+
+from models import Question, AnswerPayload, TestCaseResult
 
 def evaluate_answer(question_text: str, answer_text: str, candidate_id: str, difficulty: int) -> Tuple[float, str]:
     """
@@ -25,6 +28,59 @@ def evaluate_answer(question_text: str, answer_text: str, candidate_id: str, dif
     print(f"[LLM Evaluator] Score awarded: {score:.2f}")
     return round(score, 2), feedback
 
+def _normalize(text: str) -> str:
+    return re.sub(r"\s+", " ", re.sub(r"[^\w\s]", "", text.lower())).strip()
+
+def answer_to_text(answer: AnswerPayload) -> str:
+    """Flatten an answer payload into the text stored alongside its evaluation."""
+    if answer.kind == "single_choice":
+        return answer.selectedOptionId or ""
+    if answer.kind == "multi_choice":
+        return ",".join(sorted(answer.selectedOptionIds))
+    if answer.kind == "code":
+        return answer.code or ""
+    return answer.text or ""
+
+def score_objective_answer(question: Question, answer: AnswerPayload) -> Optional[Tuple[float, str]]:
+    """
+    Deterministically scores objective question kinds (0.0 to 10.0).
+    Returns None when the question needs the LLM evaluator instead (code, long text,
+    or short text without accepted answers).
+    """
+    if question.kind == "single_choice":
+        if answer.selectedOptionId in question.correctOptionIds:
+            return 10.0, "Correct option selected."
+        return 0.0, "Incorrect option selected."
+
+    if question.kind == "multi_choice":
+        correct = set(question.correctOptionIds)
+        selected = set(answer.selectedOptionIds)
+        if not correct:
+            return None
+        # Each correct pick earns credit, each wrong pick cancels one; never below zero
+        hits = len(selected & correct) - len(selected - correct)
+        score = round(max(hits, 0) / len(correct) * 10.0, 2)
+        if selected == correct:
+            return score, "All correct options selected."
+        return score, f"{len(selected & correct)} of {len(correct)} correct options selected."
+
+    if question.kind == "short_text" and question.acceptedAnswers:
+        given = _normalize(answer.text or "")
+        if any(given == _normalize(accepted) for accepted in question.acceptedAnswers):
+            return 10.0, "Answer matches the expected response."
+        return 0.0, "Answer does not match the expected response."
+
+    return None
+
+def score_test_results(results: List[TestCaseResult]) -> Tuple[float, str]:
+    """Scores a code answer by the share of test cases (visible and hidden) it passes."""
+    passed = sum(1 for result in results if result.passed)
+    hidden_failed = sum(1 for result in results if result.hidden and not result.passed)
+    feedback = f"{passed} of {len(results)} test cases passed."
+    if hidden_failed:
+        feedback += f" {hidden_failed} hidden case(s) failed."
+    return round(passed / len(results) * 10.0, 2), feedback
+
 def adjust_difficulty(current_difficulty: int, latest_score: float) -> int:
     """
     Adjusts the difficulty of the next question based on the evaluation result.
@@ -149,7 +149,8 @@ CREATE TABLE public.interview_sessions (
     start_time timestamp with time zone DEFAULT now() NOT NULL,
     end_time timestamp with time zone,
     total_risk_score numeric(5,2) DEFAULT 0.00,
-    status character varying DEFAULT 'IN_PROGRESS'::character varying
+    status character varying DEFAULT 'IN_PROGRESS'::character varying,
+    domain character varying
 );
 
 
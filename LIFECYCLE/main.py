@@ -1,8 +1,15 @@
-from fastapi import FastAPI, HTTPException, status
+import asyncio
+from datetime import datetime, timezone
+from typing import List, Optional
+from fastapi import Depends, FastAPI, Header, HTTPException, Request, status
+from fastapi.responses import StreamingResponse
 import uvicorn
 
-from models import SessionCreateRequest, SubmitAnswerRequest, SessionResponse
+from models import (SessionCreateRequest, SubmitAnswerRequest, SaveDraftRequest, SessionResponse, AnswerPayload, AttemptStatus,
+                    ExtraTimeRequest, ProctorMessageRequest, LeaseRequest, SessionLease, AuthUser)
+from auth import current_user, require_staff, issue_stream_token, stream_user, STAFF_ROLES, STREAM_TOKEN_TTL_SECONDS
 import session_manager
+import session_events
 
 
 from fastapi.middleware.cors import CORSMiddleware
@@ -21,113 +28,374 @@ app.add_middleware(
 )
 
 
+def active_elsewhere(session, message: str) -> HTTPException:
+    """409 telling a client that another tab or device holds the session's lease"""
+    return HTTPException(status_code=status.HTTP_409_CONFLICT, detail={
+        "code": "SESSION_ACTIVE_ELSEWHERE",
+        "message": message,
+        "sessionId": session.sessionId,
+        "domain": session.domain
+    })
+
+def accessible_session(session_id: str, user: AuthUser):
+    """The session, if it exists and the user is its candidate or staff; 404/403 otherwise"""
+    session = session_manager.get_session_status(session_id)
+    if not session:
+        raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail="Session not found")
+    if user.role not in STAFF_ROLES and session.candidateId != user.id:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="You do not have permission to view this session.")
+    return session
+
+def require_lease(session_id: str, lease_id: Optional[str]):
+    """Refuse work from a client whose lease was taken over by another tab or device"""
+    session = session_manager.get_session_status(session_id)
+    if session and not session_manager.holds_lease(session, lease_id):
+        raise active_elsewhere(session, "This session is active in another tab or on another device.")
+
 @app.post("/api/sessions/start", response_model=SessionResponse, status_code=status.HTTP_201_CREATED)
-def start_session(request: SessionCreateRequest):
+def start_session(request: SessionCreateRequest, lease_id: Optional[str] = Header(None, alias="X-Session-Lease"),
+                  user: AuthUser = Depends(current_user)):
     """
     1. Integrate Session Lifecycle with Backend
-    Initializes a new session, generates a session ID, and begins tracking the timer.
+    Initializes a new session for the signed-in candidate, generates a session ID, and begins tracking the timer.
     """
-    if not request.candidateId:
-        raise HTTPException(status_code=400, detail="Candidate ID is required")
-    
-    session_response = session_manager.initialize_session(
-        candidate_id=request.candidateId
-    )
+    if request.domain not in session_manager.SUPPORTED_DOMAINS:
+        raise HTTPException(status_code=400, detail=f"Unsupported domain '{request.domain}'")
+
+    # One live session per account: another tab or device must take the running one over instead
+    leased = session_manager.find_leased_session(user.id)
+    if leased and leased.leaseId != lease_id:
+        raise active_elsewhere(leased, "You already have an assessment in progress in another tab or on another device.")
+
+    # An invitation, checked against its row rather than anything the client sends, sets the deadline and attempt limit
+    invitation = session_manager.get_invitation(user.id, request.domain)
+    if invitation and invitation["deadline"] <= datetime.now(timezone.utc):
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail={
+            "code": "INVITATION_EXPIRED",
+            "message": "The deadline for your invitation to this assessment has passed.",
+            "retryAfterSeconds": 0
+        })
+
+    # Checking and recording the attempt happen under one lock, so parallel starts cannot both pass the check
+    with session_manager.attempt_lock(user.id, request.domain):
+        # Enforce the retake policy; the detail carries a code the client turns into a blocked state
+        try:
+            attempts = session_manager.get_attempt_status(user.id, request.domain)
+        except ValueError as e:
+            raise HTTPException(status_code=status.HTTP_503_SERVICE_UNAVAILABLE, detail=str(e))
+        if attempts.attemptsRemaining == 0:
+            raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail={
+                "code": "NO_ATTEMPTS_REMAINING",
+                "message": f"You have used all {attempts.maxAttempts} attempts for this assessment.",
+                **attempts.dict()
+            })
+        if attempts.retryAfterSeconds > 0:
+            raise HTTPException(status_code=status.HTTP_429_TOO_MANY_REQUESTS, detail={
+                "code": "RETAKE_COOLDOWN",
+                "message": "You can retake this assessment once the cooldown after your last attempt has passed.",
+                **attempts.dict()
+            }, headers={"Retry-After": str(attempts.retryAfterSeconds)})
+
+        try:
+            session_response = session_manager.initialize_session(
+                candidate_id=user.id,
+                domain=request.domain,
+                assessment_template_id=request.assessmentTemplateId,
+                invitation_id=invitation["id"] if invitation and not invitation["consumedAt"] else None
+            )
+        except ValueError as e:
+            raise HTTPException(status_code=status.HTTP_409_CONFLICT, detail=str(e))
     return session_response
 
+@app.get("/api/candidates/{candidate_id}/attempts", response_model=List[AttemptStatus])
+def view_candidate_attempts(candidate_id: str, user: AuthUser = Depends(current_user)):
+    """
+    Attempts used and remaining per domain, shown on the domain selection cards.
+    Candidates can only see their own; staff can look up anyone's.
+    """
+    if candidate_id != user.id and user.role not in STAFF_ROLES:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="You can only view your own attempts.")
+    try:
+        return [session_manager.get_attempt_status(candidate_id, domain) for domain in session_manager.SUPPORTED_DOMAINS]
+    except ValueError as e:
+        raise HTTPException(status_code=status.HTTP_503_SERVICE_UNAVAILABLE, detail=str(e))
+
 @app.get("/api/sessions/{session_id}/question")
 def get_next_question(session_id: str):
     """
-    3. Enforce Question Timeout Rule (30 minutes)
-    Retrieves the candidate's current question, but fails and terminates if the 30-minute timer has expired.
+    3. Enforce Question Timeout Rule
+    Retrieves the candidate's current question, but fails and times the session out if either time budget has expired.
     """
     question = session_manager.get_current_question(session_id)
     if not question:
         session = session_manager.get_session_status(session_id)
         if hasattr(session, "status") and session.status == "terminated":
-            raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="Session timed out or has been terminated.")
+            raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="Session has been terminated.")
+        elif hasattr(session, "status") and session.status == "timeout":
+            raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="Session timed out.")
         elif hasattr(session, "status") and session.status == "completed":
             raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="Session already completed.")
         raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail="Session not found or has expired.")
     
-    return {"questionId": question.questionId, "text": question.text, "difficulty": question.difficulty}
+    # The answer key (correctOptionIds / acceptedAnswers) and rubric are never exposed to candidates
+    payload = {"questionId": question.questionId, "kind": question.kind, "text": question.text, "difficulty": question.difficulty}
+    if question.kind in ("single_choice", "multi_choice"):
+        payload["options"] = [option.dict() for option in question.options]
+    elif question.kind == "code":
+        payload["language"] = question.language
+        payload["starterCode"] = question.starterCode
+        payload["entryPoint"] = question.entryPoint
+        payload["testCases"] = [
+            {"testId": case.testId, "input": case.input, "expected": case.expected}
+            for case in question.testCases if not case.hidden
+        ]
+    return payload
 
 @app.post("/api/sessions/{session_id}/submit", response_model=SessionResponse)
-def submit_candidate_answer(session_id: str, request: SubmitAnswerRequest):
+def submit_candidate_answer(session_id: str, request: SubmitAnswerRequest,
+                            idempotency_key: Optional[str] = Header(None, alias="Idempotency-Key"),
+                            lease_id: Optional[str] = Header(None, alias="X-Session-Lease"),
+                            user: AuthUser = Depends(current_user)):
     """
     2. Connect Session Manager with Evaluation System
     Submit the candidate's response and transition to the next question based on the evaluation dynamically.
     """
-    if not request.answerText:
-        raise HTTPException(status_code=400, detail="Answer text is required")
+    answer = request.answer
+    if answer is None and request.answerText:
+        answer = AnswerPayload(kind="long_text", text=request.answerText)
+    if answer is None and not request.skipped:
+        raise HTTPException(status_code=400, detail="An answer is required")
+    require_lease(session_id, lease_id)
 
-    response = session_manager.submit_answer(
-        session_id=session_id,
-        candidate_id=request.candidateId,
-        answer_text=request.answerText
-    )
-    
-    if "Session timed out" in response.message:
-        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail=response.message)
-        
+    try:
+        response = session_manager.submit_answer(
+            session_id=session_id,
+            candidate_id=user.id,
+            answer=answer,
+            skipped=request.skipped,
+            idempotency_key=idempotency_key,
+            contact_receipt=request.contactReceipt
+        )
+    except ValueError as e:
+        raise HTTPException(status_code=400, detail=str(e))
+
+    if response.status == "error":
+        raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail=response.message)
+    # Refusals are errors, never a 200, so a client replaying queued answers cannot mistake one for success
+    if not response.accepted:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail={
+            "code": "SUBMISSION_REJECTED",
+            "message": response.message,
+            "status": response.status
+        })
     return response
 
+@app.put("/api/sessions/{session_id}/draft")
+def save_answer_draft(session_id: str, request: SaveDraftRequest,
+                      lease_id: Optional[str] = Header(None, alias="X-Session-Lease"),
+                      user: AuthUser = Depends(current_user)):
+    """
+    Autosave the candidate's unsubmitted answer so it survives reloads and crashes.
+    Drafts are discarded when the answer is submitted.
+    """
+    require_lease(session_id, lease_id)
+    try:
+        draft = session_manager.save_draft(session_id, user.id, request.questionId, request.answer)
+    except ValueError as e:
+        raise HTTPException(status_code=status.HTTP_409_CONFLICT, detail=str(e))
+    return draft
+
+@app.get("/api/sessions/{session_id}/draft")
+def get_answer_draft(session_id: str, user: AuthUser = Depends(current_user)):
+    """
+    Retrieve the signed-in candidate's autosaved draft for the current question (null when nothing is saved).
+    """
+    return session_manager.get_draft(session_id, user.id)
+
+@app.post("/api/sessions/{session_id}/lease", response_model=SessionLease)
+def acquire_session_lease(session_id: str, request: LeaseRequest, user: AuthUser = Depends(current_user)):
+    """
+    Claim or renew (heartbeat) the right to work on the session from this client.
+    While another tab or device holds a live lease the claim is refused unless it is an explicit takeover.
+    """
+    session = session_manager.get_session_status(session_id)
+    if not session:
+        raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail="Session not found")
+    try:
+        lease = session_manager.acquire_lease(session_id, user.id, request.leaseId, request.takeover)
+    except ValueError as e:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail=str(e))
+    if not lease.granted:
+        raise active_elsewhere(session, "This session is active in another tab or on another device.")
+    return lease
+
+@app.delete("/api/sessions/{session_id}/lease", status_code=status.HTTP_204_NO_CONTENT)
+def release_session_lease(session_id: str, lease_id: str = Header(..., alias="X-Session-Lease")):
+    """
+    Give up the lease, e.g. when the candidate leaves the session, so another client can pick it up at once.
+    """
+    session_manager.release_lease(session_id, lease_id)
+
 @app.post("/api/sessions/{session_id}/terminate", response_model=SessionResponse)
-def forcefully_terminate_session(session_id: str, reason: str = "Admin requested"):
+def forcefully_terminate_session(session_id: str, reason: str = "Admin requested", riskScore: Optional[float] = None,
+                                 user: AuthUser = Depends(current_user)):
     """
     4. Implement Session Termination Logic
-    A proctoring engine or administrative backend can forcefully close the session.
+    Staff can forcefully close any session; a candidate's own client may only close its own
+    (the browser proctoring ends the session once the violation limit is reached).
+    """
+    session = session_manager.get_session_status(session_id)
+    if session and user.role not in STAFF_ROLES and session.candidateId != user.id:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="You do not have permission to perform this action.")
+    response = session_manager.terminate_session(session_id, reason, riskScore)
+    if response.status == "error":
+        raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail=response.message)
+    return response
+
+@app.post("/api/sessions/{session_id}/flag", response_model=SessionResponse)
+def flag_session_for_review(session_id: str, riskScore: Optional[float] = None, user: AuthUser = Depends(current_user)):
+    """
+    Flag the session for reviewers once the proctoring limit is reached under a 'flag' policy.
+    Staff, or the session's own candidate (the browser proctoring raises the flag).
     """
-    response = session_manager.terminate_session(session_id, reason)
+    accessible_session(session_id, user)
+    response = session_manager.flag_session(session_id, riskScore)
+    if response.status == "error":
+        raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail=response.message)
     return response
 
 @app.get("/api/sessions/{session_id}/status")
-def view_session_status(session_id: str):
+def view_session_status(session_id: str, user: AuthUser = Depends(current_user)):
     """
-    Get the overall risk score, answers, and session state.
+    Get the session state and remaining time (no scores; see /results). Its own candidate or staff only.
     """
-    session = session_manager.get_session_status(session_id)
-    if not session:
-        raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail="Session not found")
-        
-    # Calculate Remaining Time (Production-grade Timer System)
-    from datetime import datetime
-    elapsed = (datetime.now() - session.questionStartTime).total_seconds()
-    # Assuming session_manager.QUESTION_TIMEOUT_MINUTES is total timeout
-    remaining = max(0, (session_manager.QUESTION_TIMEOUT_MINUTES * 60) - elapsed)
+    session = accessible_session(session_id, user)
 
-    return {
-        "sessionId": session.sessionId,
-        "candidateId": session.candidateId,
-        "status": session.status,
-        "currentQuestionIndex": session.currentQuestionIndex,
-        "score": session.score,
-        "timeStarted": session.startTime,
-        "questionStartTime": session.questionStartTime,
-        "remainingTimeSeconds": int(remaining)
-    }
+    # Remaining time comes from the Production-grade Timer System; nothing is left once the session has ended
+    return session_manager.status_snapshot(session)
+
+@app.post("/api/sessions/{session_id}/stream-token")
+def issue_session_stream_token(session_id: str, user: AuthUser = Depends(current_user)):
+    """
+    Short-lived token for opening the session's event stream, which cannot carry an Authorization header.
+    Its own candidate or staff only.
+    """
+    accessible_session(session_id, user)
+    return {"token": issue_stream_token(session_id, user), "expiresInSeconds": STREAM_TOKEN_TTL_SECONDS}
+
+@app.get("/api/sessions/{session_id}/events")
+async def stream_session_events(session_id: str, request: Request, user: AuthUser = Depends(stream_user)):
+    """
+    Server-Sent Events stream for the candidate's client: the current status on connect, then status changes,
+    termination, extra-time grants and proctor messages as they happen, with a remaining-time tick in between.
+    Opened with a token from /stream-token in the `token` query parameter. The stream ends once the session does.
+    """
+    session = accessible_session(session_id, user)
+
+    queue = session_events.subscribe(session_id)
+
+    async def event_stream():
+        try:
+            yield session_events.format_event("status", session_manager.status_snapshot(session))
+            while session.status == "active":
+                try:
+                    event, data = await asyncio.wait_for(queue.get(), timeout=session_events.TICK_SECONDS)
+                    yield session_events.format_event(event, data)
+                except asyncio.TimeoutError:
+                    if await request.is_disconnected():
+                        return
+                    session_manager.get_session_status(session_id) # Lazily ends the session once time is up
+                    yield session_events.format_event("tick", session_manager.remaining_snapshot(session))
+            # Flush what the ending published (e.g. "terminated" followed by the final status)
+            while not queue.empty():
+                event, data = queue.get_nowait()
+                yield session_events.format_event(event, data)
+        finally:
+            session_events.unsubscribe(session_id, queue)
+
+    return StreamingResponse(event_stream(), media_type="text/event-stream",
+                             headers={"Cache-Control": "no-cache", "X-Accel-Buffering": "no"})
+
+@app.post("/api/sessions/{session_id}/extra-time", dependencies=[Depends(require_staff)])
+def grant_session_extra_time(session_id: str, request: ExtraTimeRequest):
+    """
+    Proctor/admin action: extend the candidate's time. Pushed to the candidate over the event stream.
+    """
+    try:
+        session = session_manager.grant_extra_time(session_id, request.seconds, request.reason)
+    except ValueError as e:
+        raise HTTPException(status_code=400, detail=str(e))
+    return session_manager.status_snapshot(session)
+
+@app.post("/api/sessions/{session_id}/messages", dependencies=[Depends(require_staff)])
+def send_session_message(session_id: str, request: ProctorMessageRequest):
+    """
+    Proctor/admin action: show a message to the candidate over the event stream.
+    """
+    try:
+        return session_manager.send_proctor_message(session_id, request.message)
+    except ValueError as e:
+        raise HTTPException(status_code=400, detail=str(e))
 
 @app.get("/api/sessions/{session_id}/results")
-def get_session_results(session_id: str):
+def get_session_results(session_id: str, user: AuthUser = Depends(current_user)):
     """
     Display evaluation results for candidate. Used by Frontend & Reporting teams.
+    Candidates only see their own session, and only a confirmation (no scores or feedback)
+    when the proctoring policy hides results; staff always get the full breakdown.
     """
     session = session_manager.get_session_status(session_id)
     if not session:
         raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail="Session not found")
-        
-    return {
+    is_staff = user.role in STAFF_ROLES
+    if not is_staff and session.candidateId != user.id:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="You can only view your own results.")
+
+    summary = {
         "sessionId": session.sessionId,
         "candidateId": session.candidateId,
+        "domain": session.domain,
         "status": session.status,
-        "finalScore": session.score,
         "questionsAttempted": len(session.answers),
+        "totalQuestions": session_manager.TOTAL_QUESTIONS,
+        "startTime": session.startTime,
+        "endTime": session.endTime,
+        "terminationReason": session.terminationReason
+    }
+    if not is_staff and session_manager.results_visibility(session) == "confirmation":
+        return {**summary, "resultsVisibility": "confirmation"}
+
+    answered = session.questions[:len(session.answers)]
+    return {
+        **summary,
+        "resultsVisibility": "scores",
+        "finalScore": session.score,
+        "maxScore": session_manager.TOTAL_QUESTIONS * 10.0,
+        "riskScore": session.riskScore,
+        "flaggedForReview": session.flaggedForReview,
+        "difficultyProgression": [question.difficulty for question in answered],
+        "questions": [
+            {
+                "questionId": question.questionId,
+                "text": question.text,
+                "kind": question.kind,
+                "difficulty": question.difficulty,
+                "score": ans.score,
+                "feedback": ans.feedback,
+                "timeSpentSeconds": int((ans.submittedAt - ans.startedAt).total_seconds()) if ans.startedAt and ans.submittedAt else None,
+                # Hidden test cases report pass/fail only
+                "testResults": [
+                    result.dict(exclude={"actual"} if result.hidden else None) for result in ans.testResults
+                ]
+            }
+            for question, ans in zip(answered, session.answers)
+        ]
     }
 
-@app.get("/api/sessions/{session_id}/answers")
+@app.get("/api/sessions/{session_id}/answers", dependencies=[Depends(require_staff)])
 def get_session_answers(session_id: str):
     """
-    Retrieve candidate answers with evaluation feedback. Used by Admin Review and Summary teams.
+    Retrieve candidate answers with evaluation feedback. Used by Admin Review and Summary teams (staff only).
     """
     session = session_manager.get_session_status(session_id)
     if not session:
@@ -139,9 +407,11 @@ def get_session_answers(session_id: str):
         "answers": [
             {
                 "questionId": ans.questionId,
+                "kind": ans.kind,
                 "text": ans.text,
                 "score": ans.score,
-                "feedback": ans.feedback
+                "feedback": ans.feedback,
+                "testResults": [result.dict() for result in ans.testResults]
             }
             for ans in session.answers
         ]
@@ -1,41 +1,147 @@
 from pydantic import BaseModel, Field
-from typing import List, Optional
+from typing import Any, Dict, List, Optional
 from datetime import datetime
 import uuid
 
+# Question kinds; single/multi choice and short text with accepted answers are scored deterministically
+QUESTION_KINDS = ["single_choice", "multi_choice", "code", "short_text", "long_text"]
+
+class ChoiceOption(BaseModel):
+    optionId: str
+    text: str
+
+class CodeTestCase(BaseModel):
+    testId: str
+    input: List[Any] # Arguments passed to the entry point
+    expected: Any = None
+    hidden: bool = False
+
+class TestCaseResult(BaseModel):
+    testId: str
+    hidden: bool = False
+    passed: bool
+    runtimeMs: float = 0.0
+    actual: Any = None
+    error: Optional[str] = None
+
 class Question(BaseModel):
     questionId: str = Field(default_factory=lambda: str(uuid.uuid4()))
     text: str
     difficulty: int = 1
+    rubric: str = ""
+    kind: str = "long_text"
+    options: List[ChoiceOption] = []
+    language: Optional[str] = None
+    starterCode: Optional[str] = None
+    entryPoint: Optional[str] = None
+    testCases: List[CodeTestCase] = [] # Hidden cases are never sent to candidates
+    # Answer key - never sent to candidates
+    correctOptionIds: List[str] = []
+    acceptedAnswers: List[str] = []
+
+class AnswerPayload(BaseModel):
+    kind: str
+    text: Optional[str] = None
+    selectedOptionId: Optional[str] = None
+    selectedOptionIds: List[str] = []
+    code: Optional[str] = None
+    language: Optional[str] = None
+    testResults: List[TestCaseResult] = [] # Latest local run over the visible cases, as reported by the browser
 
 class Answer(BaseModel):
     questionId: str
+    kind: str = "long_text"
     text: str
+    payload: Optional[AnswerPayload] = None
     score: float = 0.0
     feedback: str = ""
+    testResults: List[TestCaseResult] = []
+    startedAt: Optional[datetime] = None
+    submittedAt: Optional[datetime] = None
+
+class AnswerDraft(BaseModel):
+    questionId: str
+    answer: AnswerPayload
+    savedAt: datetime = Field(default_factory=datetime.now)
 
 class AssessmentSession(BaseModel):
     sessionId: str = Field(default_factory=lambda: str(uuid.uuid4()))
     dbSessionId: Optional[int] = None
     candidateId: str
+    domain: str
+    assessmentTemplateId: Optional[str] = None
     startTime: datetime = Field(default_factory=datetime.utcnow)
+    endTime: Optional[datetime] = None
     currentQuestionIndex: int = 0
     questions: List[Question]
     answers: List[Answer] = []
     status: str = "active" # active, completed, terminated, timeout
     questionStartTime: datetime = Field(default_factory=datetime.utcnow)
+    timeLimitSeconds: int # Budget for the whole assessment
+    questionTimeLimitSeconds: Optional[int] = None # Per-question cap; None means questions share the overall budget
     score: float = 0.0
+    riskScore: float = 0.0
+    terminationReason: Optional[str] = None
+    flaggedForReview: bool = False # The proctoring limit was reached under a policy that flags rather than terminates
+    draft: Optional[AnswerDraft] = None # Autosaved, unsubmitted answer for the current question
+    submissionResponses: Dict[str, dict] = {} # Idempotency key -> response of the submission it recorded
+    leaseId: Optional[str] = None # Held by the one client allowed to work on the session
+    leaseExpiresAt: Optional[datetime] = None # Lapses unless the holder heartbeats
+    lastContactAt: Optional[datetime] = None # When the latest contact receipt was issued
+    lapsedContacts: List[datetime] = [] # Receipts after which the lease lapsed unrenewed; only these backdate answers
+    chargedContacts: List[datetime] = [] # Receipts already counted against the session's offline grace
+    offlineGraceUsedSeconds: float = 0.0
+
+class AuthUser(BaseModel):
+    id: str # Account id from the verified access token; sessions and attempts are keyed on it
+    email: Optional[str] = None
+    role: str = "candidate"
 
 class SessionCreateRequest(BaseModel):
-    candidateId: str
+    domain: str
+    assessmentTemplateId: Optional[str] = None
+
+class AttemptStatus(BaseModel):
+    domain: str
+    attemptsUsed: int
+    maxAttempts: int
+    attemptsRemaining: int
+    retryAfterSeconds: int = 0 # Cooldown left before the next attempt may start
+    canStart: bool
 
 class SubmitAnswerRequest(BaseModel):
-    candidateId: str
-    answerText: str
+    answer: Optional[AnswerPayload] = None
+    answerText: Optional[str] = None # Legacy free-text submissions, treated as long_text
+    skipped: bool = False
+    contactReceipt: Optional[str] = None # Set when the client held the answer offline; the last lease receipt it had been issued
+
+class LeaseRequest(BaseModel):
+    leaseId: Optional[str] = None # The caller's current lease, if it has one
+    takeover: bool = False # Replace a live lease held by another client
+
+class SessionLease(BaseModel):
+    granted: bool
+    leaseId: Optional[str] = None
+    tookOver: bool = False # A live lease held by another client was replaced
+    expiresInSeconds: int
+    receipt: Optional[str] = None # Server-signed proof of contact; anchors the deadline for answers queued offline
+
+class ExtraTimeRequest(BaseModel):
+    seconds: int = Field(..., gt=0, le=7200)
+    reason: Optional[str] = None
+
+class ProctorMessageRequest(BaseModel):
+    message: str = Field(..., min_length=1, max_length=500)
+
+class SaveDraftRequest(BaseModel):
+    questionId: str
+    answer: AnswerPayload
 
 class SessionResponse(BaseModel):
     sessionId: str
     candidateId: str
+    domain: Optional[str] = None
     status: str
     currentQuestionIndex: int
+    accepted: bool = True # False when a submission was refused, e.g. the session had ended
     message: str = ""
@@ -0,0 +1,43 @@
+"""
+In-process publish/subscribe for realtime session events (status changes, termination,
+extra-time grants and proctor messages), streamed to candidates over Server-Sent Events.
+Session logic runs in FastAPI's threadpool, so events are handed to each subscriber's event loop.
+"""
+import asyncio
+import json
+import threading
+from datetime import datetime
+from typing import Dict, List, Tuple
+
+# Seconds between remaining-time ticks on an open stream; also bounds how long a dropped client lingers
+TICK_SECONDS = 5
+
+_subscribers: Dict[str, List[Tuple[asyncio.AbstractEventLoop, asyncio.Queue]]] = {}
+_lock = threading.Lock()
+
+def subscribe(session_id: str) -> asyncio.Queue:
+    """Register a stream for the session's events; must be called from the stream's event loop"""
+    queue: asyncio.Queue = asyncio.Queue()
+    with _lock:
+        _subscribers.setdefault(session_id, []).append((asyncio.get_running_loop(), queue))
+    return queue
+
+def unsubscribe(session_id: str, queue: asyncio.Queue):
+    with _lock:
+        remaining = [entry for entry in _subscribers.get(session_id, []) if entry[1] is not queue]
+        if remaining:
+            _subscribers[session_id] = remaining
+        else:
+            _subscribers.pop(session_id, None)
+
+def publish(session_id: str, event: str, data: dict):
+    """Deliver an event to every open stream of the session; safe to call from any thread"""
+    with _lock:
+        targets = list(_subscribers.get(session_id, []))
+    for loop, queue in targets:
+        loop.call_soon_threadsafe(queue.put_nowait, (event, data))
+
+def format_event(event: str, data: dict) -> str:
+    """Serialize one event in the text/event-stream wire format"""
+    payload = json.dumps(data, default=lambda value: value.isoformat() if isinstance(value, datetime) else str(value))
+    return f"event: {event}\ndata: {payload}\n\n"
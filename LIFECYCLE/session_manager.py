@@ -1,74 +1,314 @@
-from typing import Dict, List, Optional
-from datetime import datetime, timedelta
+from typing import Dict, List, Optional, Tuple
+from datetime import datetime, timedelta, timezone
+import hashlib
+import hmac
+import json
+import os
+import secrets
+import threading
 import uuid
 
-from models import AssessmentSession, Question, SessionResponse, Answer
-from evaluation_system import evaluate_answer, adjust_difficulty
+from models import AssessmentSession, Question, SessionResponse, Answer, AnswerPayload, AnswerDraft, AttemptStatus, SessionLease
+from evaluation_system import evaluate_answer, adjust_difficulty, score_objective_answer, score_test_results, answer_to_text
+import code_runner
 import db_repository
+import session_events
 
 # In-memory session store (replace with PostgreSQL tracking logic later)
 active_sessions: Dict[str, AssessmentSession] = {}
 
+ASSESSMENT_TIME_LIMIT_MINUTES = 90
 QUESTION_TIMEOUT_MINUTES = 30
+# Per-domain time budgets overriding the defaults above, as JSON, e.g.
+# {"frontend": {"timeLimitMinutes": 60, "questionTimeLimitMinutes": 0}}; 0 disables the per-question cap.
+# Only the server decides these, never the start request.
+DOMAIN_TIME_LIMITS: Dict[str, dict] = json.loads(os.getenv("DOMAIN_TIME_LIMITS", "{}"))
+# Submissions arriving this long after the deadline are still accepted, so a client
+# auto-submitting its draft at expiry is not rejected for network latency
+SUBMIT_GRACE_SECONDS = 15
+# An answer the client queued while offline is judged by the last contact receipt the server issued
+# it before it went offline, as long as it arrives within this long of that receipt
+OFFLINE_SUBMIT_GRACE_SECONDS = 300
+# Total time offline answers may be backdated by over a whole session
+SESSION_OFFLINE_GRACE_CAP_SECONDS = 600
+# Signs contact receipts; sessions only live in this process's memory, so a per-process key suffices
+RECEIPT_KEY = secrets.token_bytes(32)
 TOTAL_QUESTIONS = 5
+# Only the client holding a session's lease may work on it; the lease lapses unless renewed within this long
+LEASE_TTL_SECONDS = 30
+# Retake policy: every started session in a domain counts as an attempt, and the
+# next one may only start once the cooldown after the latest attempt has passed
+MAX_ATTEMPTS_PER_DOMAIN = int(os.getenv("MAX_ATTEMPTS_PER_DOMAIN", "3"))
+RETAKE_COOLDOWN_HOURS = float(os.getenv("RETAKE_COOLDOWN_HOURS", "24"))
 
-MOCK_QUESTION_BANK = {
-    1: ["What is polymorphism in Object-Oriented Programming?", "Explain the difference between a list and a tuple in Python."],
-    2: ["How does an HTTP GET request differ from POST?", "Describe the purpose of indexing in a database."],
-    3: ["Explain the consensus mechanism in distributed systems.", "How would you design a scalable web scraper?"]
+# Seeds the persistent question bank on first start; questions are managed through
+# the admin API afterwards. Domain ids match the cards in DomainSelection.jsx
+SEED_QUESTION_BANK = {
+    "frontend": {
+        1: ["What is the virtual DOM and why does React use it?", "Explain the difference between CSS Flexbox and Grid."],
+        2: ["How does the browser event loop handle microtasks versus macrotasks?", "When would you reach for useMemo or useCallback in React?"],
+        3: ["How would you architect state management for a large single-page application?", "Describe strategies to reduce Largest Contentful Paint on a slow network."]
+    },
+    "backend": {
+        1: ["How does an HTTP GET request differ from POST?", "Describe the purpose of indexing in a database."],
+        2: ["Explain database transaction isolation levels.", "How would you design idempotent REST endpoints?"],
+        3: ["Explain the consensus mechanism in distributed systems.", "How would you shard a relational database under heavy write load?"]
+    },
+    "fullstack": {
+        1: ["What is polymorphism in Object-Oriented Programming?", "Explain the difference between a list and a tuple in Python."],
+        2: ["How would you implement authentication across a React frontend and a Node.js API?", "Describe how you would paginate a large API result set end to end."],
+        3: ["How would you design a scalable web scraper?", "Walk through designing a real-time collaborative editor."]
+    },
+    "uiux": {
+        1: ["What is the difference between UI and UX design?", "Why is visual hierarchy important in an interface?"],
+        2: ["How do you run a usability test and act on its findings?", "Explain how you would design for WCAG accessibility compliance."],
+        3: ["How would you build and govern a design system across multiple products?", "Describe how you would measure the impact of a redesign."]
+    },
+    "security": {
+        1: ["What is the difference between authentication and authorization?", "Explain what a cross-site scripting (XSS) attack is."],
+        2: ["How does a CSRF attack work and how do you prevent it?", "Explain how TLS establishes a secure connection."],
+        3: ["How would you threat-model a public-facing payments API?", "Describe how you would respond to a suspected credential leak."]
+    },
+    "devops": {
+        1: ["What problem do containers solve compared to virtual machines?", "Explain the purpose of a CI/CD pipeline."],
+        2: ["How does a Kubernetes Deployment perform a rolling update?", "Describe how you would manage secrets in infrastructure as code."],
+        3: ["How would you design a zero-downtime multi-region deployment?", "Explain how you would define SLOs and alerting for a critical service."]
+    }
 }
 
-def generate_question(difficulty: int) -> Question:
+SUPPORTED_DOMAINS = list(SEED_QUESTION_BANK.keys())
+
+db_repository.seed_question_bank(SEED_QUESTION_BANK)
+
+def generate_question(difficulty: int, domain: str, asked: Optional[List[str]] = None) -> Question:
     import random
-    # Select random question from the difficulty tier
-    # Real implementation would query a DB
-    questions_at_diff = MOCK_QUESTION_BANK.get(difficulty, MOCK_QUESTION_BANK[1])
-    text = random.choice(questions_at_diff)
-    return Question(text=text, difficulty=difficulty)
-
-def initialize_session(candidate_id: str) -> SessionResponse:
-    """Start an assessment session and allocate initial questions"""
-    session_id = str(uuid.uuid4())
-    first_question = generate_question(difficulty=1)
-    
+    # Select a random stored question from the domain's difficulty tier, avoiding repeats where possible.
+    # Falls back to any difficulty in the domain if the tier has been emptied by retirements.
+    candidates = db_repository.get_active_questions(domain, difficulty) or db_repository.get_active_questions(domain)
+    if not candidates:
+        # Store unavailable: fall back to the seed bank so sessions can still run
+        candidates = [{"id": None, "text": text, "difficulty": difficulty, "rubric": ""}
+                      for text in SEED_QUESTION_BANK[domain].get(difficulty, SEED_QUESTION_BANK[domain][1])]
+    fresh = [q for q in candidates if q["text"] not in (asked or [])]
+    picked = random.choice(fresh or candidates)
+    if picked["id"] is None:
+        return Question(text=picked["text"], difficulty=picked["difficulty"])
+    return Question(
+        questionId=str(picked["id"]),
+        text=picked["text"],
+        difficulty=picked["difficulty"],
+        rubric=picked["rubric"],
+        kind=picked["kind"],
+        options=picked["options"],
+        language=picked["language"],
+        starterCode=picked["starterCode"],
+        entryPoint=picked["entryPoint"],
+        testCases=picked["testCases"],
+        correctOptionIds=picked["answerKey"].get("correctOptionIds", []),
+        acceptedAnswers=picked["answerKey"].get("acceptedAnswers", [])
+    )
+
+def to_user_id(candidate_id: str) -> Optional[int]:
+    """Numeric account id behind a candidate id, or None for demo / raw UUID test strings"""
     try:
-        user_id = int(candidate_id)
+        return int(candidate_id)
     except ValueError:
-        user_id = 9999 # mock user account mapping for demo / raw UUID test strings
-        
-    db_session_id = db_repository.save_session_start_to_db(user_id=user_id)
+        return None
+
+# Held from the attempt check until the new session is recorded, so parallel starts cannot exceed the limit.
+# Sessions live in this process's memory, so the server runs as a single process and a thread lock suffices.
+_attempt_locks: Dict[Tuple[str, str], threading.Lock] = {}
+_attempt_locks_guard = threading.Lock()
+
+def attempt_lock(candidate_id: str, domain: str) -> threading.Lock:
+    """The lock serialising session starts for one candidate and domain"""
+    with _attempt_locks_guard:
+        return _attempt_locks.setdefault((candidate_id, domain), threading.Lock())
+
+def get_invitation(candidate_id: str, domain: str) -> Optional[dict]:
+    """The invitation the candidate accepted for a domain, if they were invited to it"""
+    user_id = to_user_id(candidate_id)
+    return db_repository.get_latest_invitation(user_id, domain) if user_id is not None else None
+
+def get_attempt_status(candidate_id: str, domain: str) -> AttemptStatus:
+    """
+    How many attempts a candidate has used in a domain and whether (or when) they may start another.
+    An invitation's attempt limit replaces MAX_ATTEMPTS_PER_DOMAIN for the invited domain.
+    Raises ValueError if the attempt history cannot be read.
+    """
+    invitation = get_invitation(candidate_id, domain)
+    limit = invitation["maxAttempts"] if invitation else MAX_ATTEMPTS_PER_DOMAIN
+    user_id = to_user_id(candidate_id)
+    if user_id is None:
+        # Demo candidates share one mock account, so they are not limited
+        return AttemptStatus(domain=domain, attemptsUsed=0, maxAttempts=limit, attemptsRemaining=limit, canStart=True)
+
+    history = db_repository.get_attempt_history(user_id, domain)
+    if history is None:
+        raise ValueError("Attempt history is unavailable. Please try again shortly.")
+    used, last_activity = history
+    remaining = max(0, limit - used)
+    retry_after = 0
+    if remaining > 0 and last_activity is not None:
+        cooldown_ends = last_activity + timedelta(hours=RETAKE_COOLDOWN_HOURS)
+        retry_after = max(0, int((cooldown_ends - datetime.now(timezone.utc)).total_seconds()))
+
+    return AttemptStatus(
+        domain=domain,
+        attemptsUsed=used,
+        maxAttempts=limit,
+        attemptsRemaining=remaining,
+        retryAfterSeconds=retry_after,
+        canStart=remaining > 0 and retry_after == 0
+    )
+
+def resolve_time_limits(domain: str) -> Tuple[int, Optional[int]]:
+    """Overall and per-question budgets (minutes) for a domain's assessment; None means questions are uncapped"""
+    config = DOMAIN_TIME_LIMITS.get(domain, {})
+    time_limit_minutes = config.get("timeLimitMinutes") or ASSESSMENT_TIME_LIMIT_MINUTES
+    question_time_limit_minutes = config.get("questionTimeLimitMinutes", QUESTION_TIMEOUT_MINUTES)
+    return time_limit_minutes, question_time_limit_minutes or None
+
+def initialize_session(candidate_id: str, domain: str, assessment_template_id: Optional[str] = None,
+                       invitation_id: Optional[int] = None) -> SessionResponse:
+    """
+    Start an assessment session for a domain and allocate initial questions.
+    An unused invitation is claimed by the new session first; raises ValueError if another session claimed it,
+    or if the attempt cannot be recorded (an unrecorded attempt would never count against the limit).
+    """
+    time_limit_minutes, question_time_limit_minutes = resolve_time_limits(domain)
+    session_id = str(uuid.uuid4())
+    if invitation_id is not None and not db_repository.consume_invitation(invitation_id, session_id):
+        raise ValueError("This invitation has already been used.")
+    first_question = generate_question(difficulty=1, domain=domain)
+    
+    user_id = to_user_id(candidate_id)
+    # mock user account mapping for demo / raw UUID test strings
+    db_session_id = db_repository.save_session_start_to_db(user_id=user_id if user_id is not None else 9999, domain=domain,
+                                                           session_uuid=session_id)
+    # Demo candidates are not limited, so only real accounts need the attempt on record
+    if db_session_id <= 0 and user_id is not None:
+        if invitation_id is not None:
+            db_repository.release_invitation(invitation_id, session_id)
+        raise ValueError("The attempt could not be recorded. Please try again shortly.")
     
     session = AssessmentSession(
         sessionId=session_id,
         dbSessionId=db_session_id if db_session_id > 0 else None,
         candidateId=candidate_id,
+        domain=domain,
+        assessmentTemplateId=assessment_template_id,
         startTime=datetime.now(),
         currentQuestionIndex=0,
         questions=[first_question],
         status="active",
-        questionStartTime=datetime.now()
+        questionStartTime=datetime.now(),
+        timeLimitSeconds=time_limit_minutes * 60,
+        questionTimeLimitSeconds=question_time_limit_minutes * 60 if question_time_limit_minutes else None
     )
     active_sessions[session_id] = session
     
     return SessionResponse(
         sessionId=session.sessionId,
         candidateId=session.candidateId,
+        domain=session.domain,
         status=session.status,
         currentQuestionIndex=session.currentQuestionIndex,
         message="Session successfully started!"
     )
 
-def check_timeout(session: AssessmentSession) -> bool:
-    """Enforce the 30-minute question timeout rule"""
-    elapsed = datetime.now() - session.questionStartTime
-    if elapsed.total_seconds() > (QUESTION_TIMEOUT_MINUTES * 60):
-        # We enforce a timeout by failing this question or terminating
-        session.status = "terminated"
-        if session.dbSessionId is not None:
-            db_repository.update_session_status_in_db(session.dbSessionId, "TIMEOUT", session.score)
+def get_remaining_time(session: AssessmentSession) -> Tuple[float, Optional[float]]:
+    """Seconds left in the overall budget and on the current question (None when questions are uncapped)"""
+    now = datetime.now()
+    assessment_remaining = max(0.0, session.timeLimitSeconds - (now - session.startTime).total_seconds())
+    if session.questionTimeLimitSeconds is None:
+        return assessment_remaining, None
+    question_remaining = max(0.0, session.questionTimeLimitSeconds - (now - session.questionStartTime).total_seconds())
+    return assessment_remaining, question_remaining
+
+def remaining_snapshot(session: AssessmentSession) -> dict:
+    """Remaining time as reported to the client; nothing is left once the session has ended"""
+    assessment_remaining, question_remaining = get_remaining_time(session)
+    if session.status != "active":
+        assessment_remaining, question_remaining = 0, (0 if question_remaining is not None else None)
+    # Whichever budget runs out first bounds the current question
+    remaining = min(assessment_remaining, question_remaining) if question_remaining is not None else assessment_remaining
+    return {
+        "remainingTimeSeconds": int(remaining),
+        "assessmentRemainingSeconds": int(assessment_remaining),
+        "questionRemainingSeconds": int(question_remaining) if question_remaining is not None else None,
+    }
+
+def status_snapshot(session: AssessmentSession) -> dict:
+    """
+    Session state and remaining time, as served by the status endpoint and the event stream.
+    Scores are left out; they are only released through the results endpoint, which applies the results policy.
+    """
+    return {
+        "sessionId": session.sessionId,
+        "candidateId": session.candidateId,
+        "domain": session.domain,
+        "assessmentTemplateId": session.assessmentTemplateId,
+        "status": session.status,
+        "currentQuestionIndex": session.currentQuestionIndex,
+        "timeStarted": session.startTime,
+        "questionStartTime": session.questionStartTime,
+        **remaining_snapshot(session),
+        "timeLimitSeconds": session.timeLimitSeconds,
+        "questionTimeLimitSeconds": session.questionTimeLimitSeconds,
+        "terminationReason": session.terminationReason
+    }
+
+def notify_status(session: AssessmentSession):
+    """Push the session's current state to its open event streams"""
+    session_events.publish(session.sessionId, "status", status_snapshot(session))
+
+def persist_status(session: AssessmentSession, db_status: str):
+    """Write the session's end state to its interview_sessions row, so it outlives this process"""
+    db_repository.update_session_status_in_db(session.dbSessionId, db_status, total_score=session.score,
+                                              total_risk_score=session.riskScore, termination_reason=session.terminationReason)
+
+def end_with_timeout(session: AssessmentSession, reason: str):
+    """Close the session because a time budget ran out"""
+    session.status = "timeout"
+    session.endTime = datetime.now()
+    session.terminationReason = reason
+    session.draft = None
+    if session.dbSessionId is not None:
+        persist_status(session, "TIMEOUT")
+    notify_status(session)
+
+def expired_budget(session: AssessmentSession, at: datetime) -> Optional[str]:
+    """Which time budget had run out as of `at`, allowing SUBMIT_GRACE_SECONDS past either deadline, if any"""
+    if (at - session.startTime).total_seconds() > session.timeLimitSeconds + SUBMIT_GRACE_SECONDS:
+        return "ASSESSMENT_TIME_EXPIRED"
+    if (session.questionTimeLimitSeconds is not None and
+            (at - session.questionStartTime).total_seconds() > session.questionTimeLimitSeconds + SUBMIT_GRACE_SECONDS):
+        return "QUESTION_TIME_EXPIRED"
+    return None
+
+def check_timeout(session: AssessmentSession, at: Optional[datetime] = None) -> bool:
+    """
+    Enforce the overall and per-question time budgets, ending the session once either has run out.
+    `at` checks the budgets as of an earlier moment, e.g. when an offline answer was queued.
+    """
+    reason = expired_budget(session, at or datetime.now())
+    if reason:
+        end_with_timeout(session, reason)
         return True
     return False
 
+def accepts_late_answer(session: AssessmentSession, at: datetime) -> bool:
+    """
+    Whether a timed-out session still takes an answer that counts as made at `at`, before its deadline.
+    Reads end sessions lazily, so a reconnecting client can see the timeout before its outbox has been
+    replayed; queued answers stay submittable for OFFLINE_SUBMIT_GRACE_SECONDS after the timeout.
+    """
+    return (session.status == "timeout" and session.endTime is not None
+            and (datetime.now() - session.endTime).total_seconds() <= OFFLINE_SUBMIT_GRACE_SECONDS
+            and session.currentQuestionIndex < len(session.questions)
+            and expired_budget(session, at) is None)
+
 def get_current_question(session_id: str) -> Optional[Question]:
     """Retrieve the current question, enforcing timeouts"""
     session = active_sessions.get(session_id)
@@ -85,49 +325,160 @@ def get_current_question(session_id: str) -> Optional[Question]:
         return session.questions[session.currentQuestionIndex]
     return None
 
-def submit_answer(session_id: str, candidate_id: str, answer_text: str) -> SessionResponse:
-    """Process a submitted answer and update session state"""
+def sign_receipt(session: AssessmentSession, issued: str) -> str:
+    return hmac.new(RECEIPT_KEY, f"{session.sessionId}|{issued}".encode(), hashlib.sha256).hexdigest()
+
+def issue_contact_receipt(session: AssessmentSession) -> str:
+    """Server-signed proof that the session's client was in contact now, handed out with every lease renewal"""
+    session.lastContactAt = datetime.now()
+    issued = session.lastContactAt.isoformat()
+    return f"{issued}|{sign_receipt(session, issued)}"
+
+def receipt_issued_at(session: AssessmentSession, receipt: Optional[str]) -> Optional[datetime]:
+    """When a contact receipt for this session was issued, or None if it is missing, forged or for another session"""
+    issued, _, signature = (receipt or "").rpartition("|")
+    if not issued or not hmac.compare_digest(signature, sign_receipt(session, issued)):
+        return None
+    try:
+        return datetime.fromisoformat(issued)
+    except ValueError:
+        return None
+
+def went_silent_after(session: AssessmentSession, contact: datetime) -> bool:
+    """Whether the server saw the client go silent after this contact: its lease lapsed with no renewal in between"""
+    if contact in session.lapsedContacts:
+        return True
+    lapsed = session.leaseExpiresAt is not None and session.leaseExpiresAt <= datetime.now()
+    return contact == session.lastContactAt and lapsed
+
+def submitted_at(session: AssessmentSession, contact_receipt: Optional[str]) -> datetime:
+    """
+    The moment a submission counts as made: for an answer replayed from the offline outbox, when the server
+    last heard from the client (its contact receipt), if that was at most OFFLINE_SUBMIT_GRACE_SECONDS ago
+    (never before the question was served); otherwise now. Nothing the client reports about time is used.
+    A receipt only proves contact, so it is honoured only when the client's lease lapsed right after it,
+    and the time backdated across the session is capped at SESSION_OFFLINE_GRACE_CAP_SECONDS.
+    """
+    now = datetime.now()
+    contact = receipt_issued_at(session, contact_receipt)
+    if contact is None or (now - contact).total_seconds() > OFFLINE_SUBMIT_GRACE_SECONDS:
+        return now
+    if not went_silent_after(session, contact):
+        return now
+    made_at = max(contact, session.questionStartTime)
+    # Answers queued during one outage share its receipt; the outage is charged against the cap once
+    if contact not in session.chargedContacts:
+        grace = (now - made_at).total_seconds()
+        if session.offlineGraceUsedSeconds + grace > SESSION_OFFLINE_GRACE_CAP_SECONDS:
+            return now
+        session.offlineGraceUsedSeconds += grace
+        session.chargedContacts.append(contact)
+    return made_at
+
+def submit_answer(session_id: str, candidate_id: str, answer: Optional[AnswerPayload], skipped: bool = False,
+                  idempotency_key: Optional[str] = None, contact_receipt: Optional[str] = None) -> SessionResponse:
+    """
+    Process a submitted answer and update session state.
+    A repeated idempotency key replays the recorded response instead of advancing again.
+    Raises ValueError if the answer kind does not match the current question.
+    """
     session = active_sessions.get(session_id)
     if not session or session.candidateId != candidate_id:
         return SessionResponse(sessionId=session_id, candidateId=candidate_id, status="error", currentQuestionIndex=0, message="Session valid not found")
-        
-    if session.status != "active":
+
+    # Checked before the status so a retry of the final answer still gets its "complete" response
+    if idempotency_key and idempotency_key in session.submissionResponses:
+        return SessionResponse(**session.submissionResponses[idempotency_key])
+
+    made_at = submitted_at(session, contact_receipt)
+    if session.status != "active" and not accepts_late_answer(session, made_at):
         return SessionResponse(
              sessionId=session.sessionId,
              candidateId=session.candidateId,
              status=session.status,
              currentQuestionIndex=session.currentQuestionIndex,
+             accepted=False,
              message="Session is no longer active."
         )
 
     # Check for timeout before accepting answer
-    if check_timeout(session):
+    if session.status == "active" and check_timeout(session, made_at):
         return SessionResponse(
              sessionId=session.sessionId,
              candidateId=session.candidateId,
              status=session.status,
              currentQuestionIndex=session.currentQuestionIndex,
-             message="Question timed out. Session terminated."
+             accepted=False,
+             message="Time limit reached. Session ended."
         )
 
-    # All checks passed, evaluate answer
+    # Accepted only because the answer counts as made before the deadline; reviewers are told
+    accepted_late = session.status == "timeout" or expired_budget(session, datetime.now()) is not None
+
     current_q = session.questions[session.currentQuestionIndex]
-    
+    if not skipped and (answer is None or answer.kind != current_q.kind):
+        raise ValueError(f"Expected a '{current_q.kind}' answer for this question")
+    # The question, not the payload, decides the language; otherwise a relabelled answer would skip the hidden tests
+    if not skipped and current_q.kind == "code" and current_q.language and answer.language != current_q.language:
+        raise ValueError(f"Expected a '{current_q.language}' answer for this question")
+
+    question_number = session.currentQuestionIndex + 1
+    response = record_answer(session, current_q, answer, skipped)
+    if accepted_late:
+        record_late_answer(session, question_number, made_at)
+    if idempotency_key:
+        session.submissionResponses[idempotency_key] = response.dict()
+    notify_status(session)
+    return response
+
+def record_answer(session: AssessmentSession, current_q: Question, answer: Optional[AnswerPayload], skipped: bool) -> SessionResponse:
+    """Evaluate a validated answer, store it and advance the session to its next question or end"""
+    candidate_id = session.candidateId
+
     # -------------------------------------------------------------
     # 2. Connect Session Manager with Evaluation System Layer
     # -------------------------------------------------------------
-    score, feedback = evaluate_answer(
-        question_text=current_q.text,
-        answer_text=answer_text,
-        candidate_id=candidate_id,
-        difficulty=current_q.difficulty
-    )
+    test_results = []
+    if skipped:
+        answer_text = "[Candidate skipped question]"
+        score, feedback = 0.0, "Question skipped."
+    else:
+        answer_text = answer_to_text(answer)
+        # Objective kinds are scored against the answer key; everything else goes to the evaluator
+        objective = score_objective_answer(current_q, answer)
+        if answer.kind == "code":
+            # The server-side run over visible and hidden cases is authoritative and scores the answer.
+            # The browser's visible-case results are only kept for reviewers when it cannot run here.
+            runnable = bool(current_q.testCases and current_q.entryPoint and current_q.language in code_runner.RUNNABLE_LANGUAGES)
+            if runnable:
+                test_results = code_runner.run_test_cases(answer.code or "", current_q.entryPoint, current_q.testCases)
+            if test_results:
+                objective = score_test_results(test_results)
+            else:
+                test_results = [result for result in answer.testResults if not result.hidden]
+                if runnable:
+                    # The sandbox crashed or timed out (possibly caused by the answer itself); never guess a score
+                    objective = (0.0, "Hidden tests could not be run. Flagged for manual review.")
+        if objective is not None:
+            score, feedback = objective
+        else:
+            score, feedback = evaluate_answer(
+                question_text=current_q.text,
+                answer_text=answer_text,
+                candidate_id=candidate_id,
+                difficulty=current_q.difficulty
+            )
     
     session.answers.append(Answer(
         questionId=current_q.questionId,
+        kind=current_q.kind,
         text=answer_text,
+        payload=None if skipped else answer,
         score=score,
-        feedback=feedback
+        feedback=feedback,
+        testResults=test_results,
+        startedAt=session.questionStartTime,
+        submittedAt=datetime.now()
     ))
     
     if session.dbSessionId is not None:
@@ -136,17 +487,32 @@ def submit_answer(session_id: str, candidate_id: str, answer_text: str) -> Sessi
             question_id=current_q.questionId,
             candidate_answer=answer_text,
             ai_relevance_score=score,
-            ai_feedback=feedback
+            ai_feedback=feedback,
+            test_results=[result.dict() for result in test_results] or None
         )
     
     session.score += score
     session.currentQuestionIndex += 1
+    session.draft = None # The submitted answer supersedes any autosaved draft
+
+    # A late answer to a session that already timed out counts, but does not reopen it
+    if session.status == "timeout":
+        if session.dbSessionId is not None:
+            persist_status(session, "TIMEOUT")
+        return SessionResponse(
+            sessionId=session.sessionId,
+            candidateId=session.candidateId,
+            status=session.status,
+            currentQuestionIndex=session.currentQuestionIndex,
+            message="Answer recorded. The session had already timed out."
+        )
 
     # End session if max questions reached
     if session.currentQuestionIndex >= TOTAL_QUESTIONS:
         session.status = "completed"
+        session.endTime = datetime.now()
         if session.dbSessionId is not None:
-            db_repository.update_session_status_in_db(session.dbSessionId, "COMPLETED", session.score)
+            persist_status(session, "COMPLETED")
             
         return SessionResponse(
             sessionId=session.sessionId,
@@ -156,9 +522,21 @@ def submit_answer(session_id: str, candidate_id: str, answer_text: str) -> Sessi
             message=f"Assessment Complete. Final Score: {session.score:.2f}"
         )
         
+    # An answer accepted within the grace period still counts, but no further question is served
+    assessment_remaining, _ = get_remaining_time(session)
+    if assessment_remaining <= 0:
+        end_with_timeout(session, "ASSESSMENT_TIME_EXPIRED")
+        return SessionResponse(
+            sessionId=session.sessionId,
+            candidateId=session.candidateId,
+            status=session.status,
+            currentQuestionIndex=session.currentQuestionIndex,
+            message="Answer recorded. The assessment time limit has been reached."
+        )
+
     # Generate next question with adjusted difficulty
     new_diff = adjust_difficulty(current_q.difficulty, score)
-    next_question = generate_question(new_diff)
+    next_question = generate_question(new_diff, session.domain, [q.text for q in session.questions])
     session.questions.append(next_question)
     session.questionStartTime = datetime.now() # Reset timeout timer
 
@@ -170,19 +548,35 @@ def submit_answer(session_id: str, candidate_id: str, answer_text: str) -> Sessi
          message="Answer recorded successfully."
     )
 
-def terminate_session(session_id: str, reason: str = "Administrator intervention") -> SessionResponse:
+def terminate_session(session_id: str, reason: str = "Administrator intervention", risk_score: Optional[float] = None) -> SessionResponse:
     """
     4. Implement Session Termination Logic
     Ends a session abruptly (e.g., cheating detected, manual stop).
+    The reason is stored as given so proctoring codes stay machine-readable.
     """
     session = active_sessions.get(session_id)
     if not session:
         return SessionResponse(sessionId=session_id, candidateId="unknown", status="error", currentQuestionIndex=0, message="Session not found")
-        
+
+    if session.status != "active":
+        return SessionResponse(
+            sessionId=session.sessionId,
+            candidateId=session.candidateId,
+            status=session.status,
+            currentQuestionIndex=session.currentQuestionIndex,
+            message="Session is no longer active."
+        )
+
     session.status = "terminated"
+    session.endTime = datetime.now()
+    session.terminationReason = reason
+    if risk_score is not None:
+        session.riskScore = risk_score
     if session.dbSessionId is not None:
-        db_repository.update_session_status_in_db(session.dbSessionId, "TERMINATED", session.score)
-        
+        persist_status(session, "TERMINATED")
+    session_events.publish(session.sessionId, "terminated", {"reason": reason, "riskScore": session.riskScore})
+    notify_status(session)
+
     return SessionResponse(
         sessionId=session.sessionId,
         candidateId=session.candidateId,
@@ -191,6 +585,185 @@ def terminate_session(session_id: str, reason: str = "Administrator intervention
         message=f"Session terminated: {reason}"
     )
 
+def flag_session(session_id: str, risk_score: Optional[float] = None) -> SessionResponse:
+    """
+    Marks a session for reviewers without ending it, once the proctoring limit is reached under a policy
+    that flags instead of terminating. Recorded in the session's proctoring events; repeat flags are ignored.
+    """
+    session = active_sessions.get(session_id)
+    if not session:
+        return SessionResponse(sessionId=session_id, candidateId="unknown", status="error", currentQuestionIndex=0, message="Session not found")
+
+    if risk_score is not None:
+        session.riskScore = max(session.riskScore, risk_score)
+    if not session.flaggedForReview:
+        session.flaggedForReview = True
+        record_server_event(session, "session_flagged", "high", 0, session.currentQuestionIndex + 1,
+                            f"Proctoring limit reached with a violation score of {session.riskScore:g}; flagged for review.")
+    return SessionResponse(
+        sessionId=session.sessionId,
+        candidateId=session.candidateId,
+        status=session.status,
+        currentQuestionIndex=session.currentQuestionIndex,
+        message="Session flagged for review."
+    )
+
+def lease_is_live(session: AssessmentSession) -> bool:
+    return session.leaseId is not None and session.leaseExpiresAt is not None and session.leaseExpiresAt > datetime.now()
+
+def holds_lease(session: AssessmentSession, lease_id: Optional[str]) -> bool:
+    """Whether a client may act on the session: it holds the lease, or no live lease is held"""
+    return not lease_is_live(session) or session.leaseId == lease_id
+
+def find_leased_session(candidate_id: str) -> Optional[AssessmentSession]:
+    """The candidate's active session that some client currently holds a live lease on, if any"""
+    for session in active_sessions.values():
+        if session.candidateId == candidate_id and session.status == "active" and lease_is_live(session):
+            return session
+    return None
+
+def record_server_event(session: AssessmentSession, event_type: str, severity: str, severity_score: int,
+                        question_index: int, message: str):
+    """Log an event in the session's proctoring events; recorded here so a client cannot leave it out"""
+    user_id = to_user_id(session.candidateId)
+    if user_id is None:
+        return
+    db_repository.save_proctoring_event(
+        event_id=str(uuid.uuid4()),
+        user_id=user_id,
+        session_id=session.sessionId,
+        event_type=event_type,
+        severity=severity,
+        severity_score=severity_score,
+        question_index=question_index,
+        message=message
+    )
+
+def record_takeover(session: AssessmentSession):
+    record_server_event(session, "session_takeover", "medium", 2, session.currentQuestionIndex + 1,
+                        "Session moved to another tab or device.")
+
+def record_late_answer(session: AssessmentSession, question_number: int, made_at: datetime):
+    """Log an answer accepted past its deadline because the client was offline when it was made"""
+    late_by = int((datetime.now() - made_at).total_seconds())
+    record_server_event(session, "late_answer_accepted", "low", 0, question_number,
+                        f"Answer queued offline was accepted {late_by}s after it was made, past the deadline.")
+
+def acquire_lease(session_id: str, candidate_id: str, lease_id: Optional[str] = None, takeover: bool = False) -> SessionLease:
+    """
+    Grant or renew the session's lease for one client; renewing doubles as its heartbeat.
+    A live lease held by another client is only replaced on takeover, which the displaced client
+    learns about from its next heartbeat; the event stream only prompts it to heartbeat at once.
+    Raises ValueError if the session is not found or no longer active.
+    """
+    session = active_sessions.get(session_id)
+    if not session or session.candidateId != candidate_id:
+        raise ValueError("Session not found")
+    if session.status != "active":
+        raise ValueError("Session is no longer active.")
+
+    now = datetime.now()
+    # A renewal after the lease lapsed marks the silence that backdated offline answers depend on
+    if session.leaseExpiresAt is not None and session.leaseExpiresAt <= now and session.lastContactAt is not None:
+        session.lapsedContacts.append(session.lastContactAt)
+    held_elsewhere = not holds_lease(session, lease_id)
+    if held_elsewhere and not takeover:
+        return SessionLease(granted=False, expiresInSeconds=int((session.leaseExpiresAt - now).total_seconds()))
+
+    if not lease_id or session.leaseId != lease_id:
+        session.leaseId = str(uuid.uuid4())
+    session.leaseExpiresAt = now + timedelta(seconds=LEASE_TTL_SECONDS)
+    if held_elsewhere:
+        record_takeover(session)
+        # The stream reaches every subscriber, so the new lease id is never published
+        session_events.publish(session.sessionId, "taken_over", {})
+    return SessionLease(granted=True, leaseId=session.leaseId, tookOver=held_elsewhere, expiresInSeconds=LEASE_TTL_SECONDS,
+                        receipt=issue_contact_receipt(session))
+
+def release_lease(session_id: str, lease_id: str):
+    """Drop the lease if the caller holds it, so another client can pick the session up at once"""
+    session = active_sessions.get(session_id)
+    if session and session.leaseId == lease_id:
+        session.leaseId = None
+        session.leaseExpiresAt = None
+
+def grant_extra_time(session_id: str, seconds: int, reason: Optional[str] = None) -> AssessmentSession:
+    """
+    Extend the overall budget and the current question's cap by the given number of seconds.
+    Raises ValueError if the session is not found or no longer active.
+    """
+    session = get_session_status(session_id)
+    if not session:
+        raise ValueError("Session not found")
+    if session.status != "active":
+        raise ValueError("Session is no longer active.")
+
+    session.timeLimitSeconds += seconds
+    # Shifting the question's start extends only the current question, not every later one
+    session.questionStartTime += timedelta(seconds=seconds)
+    session_events.publish(session.sessionId, "extra_time", {"seconds": seconds, "reason": reason, "grantedAt": datetime.now()})
+    notify_status(session)
+    return session
+
+def send_proctor_message(session_id: str, message: str) -> dict:
+    """
+    Deliver a proctor's message to the candidate's open event streams.
+    Raises ValueError if the session is not found or no longer active.
+    """
+    session = active_sessions.get(session_id)
+    if not session:
+        raise ValueError("Session not found")
+    if session.status != "active":
+        raise ValueError("Session is no longer active.")
+
+    notice = {"message": message, "sentAt": datetime.now()}
+    session_events.publish(session.sessionId, "message", notice)
+    return notice
+
+def save_draft(session_id: str, candidate_id: str, question_id: str, answer: AnswerPayload) -> AnswerDraft:
+    """
+    Store the autosaved answer for the current question, replacing any earlier draft.
+    Raises ValueError if the session is not active or the question is no longer current.
+    """
+    session = active_sessions.get(session_id)
+    if not session or session.candidateId != candidate_id:
+        raise ValueError("Session not found")
+    if session.status != "active":
+        raise ValueError("Session is no longer active.")
+
+    current_q = session.questions[session.currentQuestionIndex]
+    if current_q.questionId != question_id:
+        raise ValueError("Drafts can only be saved for the current question")
+    if answer.kind != current_q.kind:
+        raise ValueError(f"Expected a '{current_q.kind}' answer for this question")
+
+    session.draft = AnswerDraft(questionId=question_id, answer=answer)
+    return session.draft
+
+def get_draft(session_id: str, candidate_id: str) -> Optional[AnswerDraft]:
+    """Return the autosaved draft for the session's current question, if any; only its own candidate gets it"""
+    session = active_sessions.get(session_id)
+    if not session or session.candidateId != candidate_id or session.status != "active" or not session.draft:
+        return None
+    if session.currentQuestionIndex >= len(session.questions):
+        return None
+    if session.draft.questionId != session.questions[session.currentQuestionIndex].questionId:
+        return None
+    return session.draft
+
+def results_visibility(session: AssessmentSession) -> str:
+    """
+    What the candidate may see of their results ('scores' or 'confirmation'), from the proctoring policy the
+    Node server serves: domain, then 'default'. The assessment scope is not consulted because the template id
+    comes from the client. Fails closed if the policy cannot be loaded or is not in the Node server's database.
+    """
+    if not db_repository.SHARES_NODE_DATABASE:
+        return "confirmation"
+    policy = db_repository.get_proctoring_policy([f"domain:{session.domain}", "default"])
+    if policy is None or policy.get("resultsVisibility") == "confirmation":
+        return "confirmation"
+    return "scores"
+
 def get_session_status(session_id: str) -> Optional[AssessmentSession]:
     """Admin function to poll current session state"""
     session = active_sessions.get(session_id)
@@ -1,10 +1,133 @@
 const express = require('express');
+const crypto = require('crypto');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
 const db = require('./db');
+const { sendMail } = require('./mailer');
+const loginThrottle = require('./loginThrottle');
+const { validateBody } = require('./authValidation');
 const router = express.Router();
 
-const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+// Without a configured secret, fall back to a per-process random one: access tokens then
+// die on restart, but refresh tokens live in the database and renew them transparently
+const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.JWT_SECRET) {
+    console.warn('JWT_SECRET is not set; using a random secret for this process.');
+}
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '7');
+const REFRESH_COOKIE = 'refresh_token';
+const REFRESH_COOKIE_PATH = '/api/auth';
+// A token rotated this recently is likely a concurrent refresh from another tab, not a replay
+const ROTATION_GRACE_SECONDS = 10;
+
+// Must match the users_role_check constraint in db.js
+const USER_ROLES = ['candidate', 'interviewer', 'admin'];
+const STAFF_ROLES = ['interviewer', 'admin'];
+
+// Other tokens signed with the same secret (invitation links, session stream tokens) carry a different
+// audience or none, so they are never accepted as access tokens. LIFECYCLE/auth.py checks the same audience.
+const ACCESS_TOKEN_AUDIENCE = 'access';
+
+// The role claim is re-read from the database on every refresh, so role changes apply within ACCESS_TOKEN_TTL
+const signAccessToken = (user) => jwt.sign(
+    { id: user.id, email: user.email, role: user.role },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL, audience: ACCESS_TOKEN_AUDIENCE }
+);
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const readCookie = (req, name) => {
+    const pair = (req.headers.cookie || '').split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+    return pair ? decodeURIComponent(pair.slice(name.length + 1)) : null;
+};
+
+const setRefreshCookie = (res, token) => {
+    res.cookie(REFRESH_COOKIE, token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        path: REFRESH_COOKIE_PATH,
+        maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+    });
+};
+
+const clearRefreshCookie = (res) => {
+    res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+};
+
+/**
+ * Stores a new opaque refresh token (only its hash is kept) and sets it as an httpOnly cookie.
+ * Tokens rotated from the same login share a family so a replayed token can revoke them all.
+ */
+const issueRefreshToken = async (res, userId, familyId = crypto.randomUUID()) => {
+    const token = crypto.randomBytes(48).toString('base64url');
+    await db.query(
+        `INSERT INTO refresh_tokens (user_id, token_hash, family_id, expires_at)
+         VALUES ($1, $2, $3, now() + make_interval(days => $4))`,
+        [userId, hashToken(token), familyId, REFRESH_TOKEN_TTL_DAYS]
+    );
+    setRefreshCookie(res, token);
+};
+
+const revokeFamily = (familyId) => db.query(
+    'UPDATE refresh_tokens SET revoked_at = now() WHERE family_id = $1 AND revoked_at IS NULL',
+    [familyId]
+);
+
+const APP_URL = process.env.APP_URL || 'http://localhost:5173';
+const TOKEN_TTL_MINUTES = { verify_email: 24 * 60, password_reset: 60 };
+
+/**
+ * Creates a single-use emailed token for the given purpose, invalidating any
+ * earlier unused token of the same purpose so only the latest link works.
+ */
+const issueAuthToken = async (userId, purpose) => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    await db.query(
+        'UPDATE auth_tokens SET used_at = now() WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL',
+        [userId, purpose]
+    );
+    await db.query(
+        `INSERT INTO auth_tokens (user_id, purpose, token_hash, expires_at)
+         VALUES ($1, $2, $3, now() + make_interval(mins => $4))`,
+        [userId, purpose, hashToken(token), TOKEN_TTL_MINUTES[purpose]]
+    );
+    return token;
+};
+
+/**
+ * Marks a token used and returns its user id, or null if it is unknown, expired or already used.
+ */
+const consumeAuthToken = async (token, purpose) => {
+    const result = await db.query(
+        `UPDATE auth_tokens SET used_at = now()
+         WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > now()
+         RETURNING user_id`,
+        [hashToken(token), purpose]
+    );
+    return result.rows[0]?.user_id ?? null;
+};
+
+const sendVerificationEmail = async (user) => {
+    const token = await issueAuthToken(user.id, 'verify_email');
+    await sendMail({
+        to: user.email,
+        subject: 'Verify your email address',
+        text: `Hi ${user.full_name},\n\nConfirm your email to activate your account:\n${APP_URL}/verify-email?token=${token}\n\nThis link expires in 24 hours.`,
+    });
+};
+
+const sendPasswordResetEmail = async (user) => {
+    const token = await issueAuthToken(user.id, 'password_reset');
+    await sendMail({
+        to: user.email,
+        subject: 'Reset your password',
+        text: `Hi ${user.full_name},\n\nReset your password here:\n${APP_URL}/reset-password?token=${token}\n\nThis link expires in 1 hour and can be used once. If you did not request it, ignore this email.`,
+    });
+};
 
 /**
  * Middleware: Authenticate JWT
@@ -15,42 +138,63 @@ const authenticateToken = (req, res, next) => {
 
     if (!token) return res.status(401).json({ message: 'Access denied. No token provided.' });
 
-    jwt.verify(token, JWT_SECRET, (err, user) => {
-        if (err) return res.status(403).json({ message: 'Invalid token.' });
+    // 401 (not 403) so clients know to refresh the access token and retry
+    jwt.verify(token, JWT_SECRET, { audience: ACCESS_TOKEN_AUDIENCE }, (err, user) => {
+        if (err) return res.status(401).json({ message: 'Invalid or expired token.' });
         req.user = user;
         next();
     });
 };
 
+/**
+ * Middleware: Restrict a route to users holding one of the given roles.
+ * Must run after authenticateToken. Uses the token's role claim, falling back
+ * to the database for tokens issued before roles were added to the claims.
+ */
+const requireRole = (...roles) => async (req, res, next) => {
+    try {
+        let role = req.user.role;
+        if (!role) {
+            const result = await db.query('SELECT role FROM users WHERE id = $1', [req.user.id]);
+            role = result.rows[0]?.role;
+        }
+        if (!role || !roles.includes(role)) {
+            return res.status(403).json({ message: 'You do not have permission to perform this action.' });
+        }
+        req.user.role = role;
+        next();
+    } catch (err) {
+        console.error('Role Check Error:', err);
+        res.status(500).json({ message: 'Server error checking permissions.' });
+    }
+};
+
 /**
  * POST /api/auth/signup
  */
-router.post('/signup', async (req, res) => {
+router.post('/signup', validateBody('signup'), async (req, res) => {
     const { username, email, password, full_name } = req.body;
 
-    if (!username || !email || !password || !full_name) {
-        return res.status(400).json({ message: 'All fields are required.' });
-    }
-
     try {
         const userRole = await db.query('SELECT * FROM users WHERE email = $1', [email]);
         if (userRole.rows.length > 0) {
-            return res.status(400).json({ message: 'Email already registered.' });
+            return res.status(400).json({ message: 'Email already registered.', errors: { email: 'Email already registered.' } });
         }
 
         const salt = await bcrypt.genSalt(10);
         const passwordHash = await bcrypt.hash(password, salt);
 
         const newUser = await db.query(
-            'INSERT INTO users (username, email, password_hash, full_name) VALUES ($1, $2, $3, $4) RETURNING id, username, email, full_name',
+            'INSERT INTO users (username, email, password_hash, full_name) VALUES ($1, $2, $3, $4) RETURNING id, username, email, full_name, role',
             [username, email, passwordHash, full_name]
         );
 
-        const token = jwt.sign({ id: newUser.rows[0].id, email: newUser.rows[0].email }, JWT_SECRET, { expiresIn: '24h' });
+        // No session until the address is confirmed through the emailed link
+        await sendVerificationEmail(newUser.rows[0]);
 
         res.status(201).json({
             success: true,
-            token,
+            message: 'Account created. Check your email to verify your address before logging in.',
             user: newUser.rows[0]
         });
     } catch (err) {
@@ -64,28 +208,45 @@ router.post('/signup', async (req, res) => {
 
 /**
  * POST /api/auth/login
+ * Throttled per IP and per account; refusals carry a code (RATE_LIMITED / ACCOUNT_LOCKED)
+ * and retryAfterSeconds, and every failed attempt is audited in login_attempts.
  */
-router.post('/login', async (req, res) => {
+router.post('/login', validateBody('login'), async (req, res) => {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-        return res.status(400).json({ message: 'Email and password are required.' });
-    }
+    const sendThrottled = ({ status, body }) => {
+        res.set('Retry-After', String(body.retryAfterSeconds));
+        return res.status(status).json(body);
+    };
 
     try {
+        const ipRefusal = await loginThrottle.checkIp(req.ip);
+        if (ipRefusal) return sendThrottled(ipRefusal);
+
         const userResult = await db.query('SELECT * FROM users WHERE email = $1', [email]);
         const user = userResult.rows[0];
 
         if (!user) {
+            await loginThrottle.recordFailure({ email, user: null, ip: req.ip, reason: 'unknown_email' });
             return res.status(400).json({ message: 'Invalid email or password.' });
         }
 
+        const accountRefusal = await loginThrottle.checkAccount(user);
+        if (accountRefusal) return sendThrottled(accountRefusal);
+
         const validPassword = await bcrypt.compare(password, user.password_hash);
         if (!validPassword) {
+            await loginThrottle.recordFailure({ email, user, ip: req.ip, reason: 'invalid_password' });
             return res.status(400).json({ message: 'Invalid email or password.' });
         }
+        await loginThrottle.recordSuccess(user.id);
 
-        const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET, { expiresIn: '24h' });
+        if (!user.email_verified) {
+            return res.status(403).json({ code: 'EMAIL_NOT_VERIFIED', message: 'Please verify your email before logging in.' });
+        }
+
+        const token = signAccessToken(user);
+        await issueRefreshToken(res, user.id);
 
         res.json({
             success: true,
@@ -95,6 +256,7 @@ router.post('/login', async (req, res) => {
                 username: user.username,
                 email: user.email,
                 full_name: user.full_name,
+                role: user.role,
             },
         });
     } catch (err) {
@@ -106,12 +268,167 @@ router.post('/login', async (req, res) => {
     }
 });
 
+/**
+ * POST /api/auth/verify-email
+ * Confirms the address behind a verification link.
+ */
+router.post('/verify-email', async (req, res) => {
+    const { token } = req.body;
+    if (!token) return res.status(400).json({ message: 'Verification token is required.' });
+
+    try {
+        const userId = await consumeAuthToken(token, 'verify_email');
+        if (!userId) {
+            return res.status(400).json({ message: 'This verification link is invalid or has expired.' });
+        }
+        await db.query('UPDATE users SET email_verified = true WHERE id = $1', [userId]);
+        res.json({ success: true, message: 'Email verified. You can now log in.' });
+    } catch (err) {
+        console.error('Verify Email Error:', err);
+        res.status(500).json({ message: 'Server error verifying email.' });
+    }
+});
+
+/**
+ * POST /api/auth/resend-verification
+ * Always answers the same way so it cannot be used to probe registered addresses.
+ */
+router.post('/resend-verification', validateBody('resendVerification'), async (req, res) => {
+    const { email } = req.body;
+
+    try {
+        const result = await db.query('SELECT id, email, full_name FROM users WHERE email = $1 AND NOT email_verified', [email]);
+        if (result.rows[0]) await sendVerificationEmail(result.rows[0]);
+        res.json({ success: true, message: 'If that account needs verification, a new link is on its way.' });
+    } catch (err) {
+        console.error('Resend Verification Error:', err);
+        res.status(500).json({ message: 'Server error sending verification email.' });
+    }
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Emails a single-use reset link; the response never reveals whether the address exists.
+ */
+router.post('/forgot-password', validateBody('forgotPassword'), async (req, res) => {
+    const { email } = req.body;
+
+    try {
+        const result = await db.query('SELECT id, email, full_name FROM users WHERE email = $1', [email]);
+        if (result.rows[0]) await sendPasswordResetEmail(result.rows[0]);
+        res.json({ success: true, message: 'If an account exists for that email, a reset link is on its way.' });
+    } catch (err) {
+        console.error('Forgot Password Error:', err);
+        res.status(500).json({ message: 'Server error sending reset email.' });
+    }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Sets a new password from a reset link and signs out every existing session.
+ */
+router.post('/reset-password', validateBody('resetPassword'), async (req, res) => {
+    const { token, password } = req.body;
+    if (!token) {
+        return res.status(400).json({ message: 'Reset token is required.' });
+    }
+
+    try {
+        const userId = await consumeAuthToken(token, 'password_reset');
+        if (!userId) {
+            return res.status(400).json({ message: 'This reset link is invalid or has expired.' });
+        }
+
+        const salt = await bcrypt.genSalt(10);
+        const passwordHash = await bcrypt.hash(password, salt);
+        // Receiving the reset email also proves ownership of the address
+        await db.query(
+            'UPDATE users SET password_hash = $1, email_verified = true, failed_login_count = 0, locked_until = NULL WHERE id = $2',
+            [passwordHash, userId]
+        );
+        await db.query('UPDATE refresh_tokens SET revoked_at = now() WHERE user_id = $1 AND revoked_at IS NULL', [userId]);
+
+        res.json({ success: true, message: 'Password updated. You can now log in.' });
+    } catch (err) {
+        console.error('Reset Password Error:', err);
+        res.status(500).json({ message: 'Server error resetting password.' });
+    }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Exchanges the refresh cookie for a new access token and rotates the refresh token.
+ * Presenting an already-rotated token means it leaked, so its whole family is revoked.
+ */
+router.post('/refresh', async (req, res) => {
+    const presented = readCookie(req, REFRESH_COOKIE);
+    if (!presented) return res.status(401).json({ message: 'No refresh token provided.' });
+
+    try {
+        const result = await db.query(
+            `SELECT rt.id, rt.family_id, rt.revoked_at, rt.expires_at < now() AS expired,
+                    rt.revoked_at > now() - make_interval(secs => $2) AS recently_rotated, u.id AS user_id, u.email, u.role
+             FROM refresh_tokens rt JOIN users u ON u.id = rt.user_id
+             WHERE rt.token_hash = $1`,
+            [hashToken(presented), ROTATION_GRACE_SECONDS]
+        );
+        const stored = result.rows[0];
+
+        if (!stored || stored.expired) {
+            clearRefreshCookie(res);
+            return res.status(401).json({ message: 'Session expired. Please log in again.' });
+        }
+        if (stored.recently_rotated) {
+            return res.status(409).json({ message: 'Refresh already in progress.' });
+        }
+        if (stored.revoked_at) {
+            await revokeFamily(stored.family_id);
+            clearRefreshCookie(res);
+            return res.status(401).json({ message: 'Session revoked. Please log in again.' });
+        }
+
+        // Guard against two tabs rotating the same token concurrently
+        const rotated = await db.query(
+            'UPDATE refresh_tokens SET revoked_at = now() WHERE id = $1 AND revoked_at IS NULL',
+            [stored.id]
+        );
+        if (rotated.rowCount === 0) {
+            return res.status(409).json({ message: 'Refresh already in progress.' });
+        }
+
+        await issueRefreshToken(res, stored.user_id, stored.family_id);
+        res.json({ success: true, token: signAccessToken({ id: stored.user_id, email: stored.email, role: stored.role }) });
+    } catch (err) {
+        console.error('Refresh Error:', err);
+        res.status(500).json({ message: 'Server error refreshing session.' });
+    }
+});
+
+/**
+ * POST /api/auth/logout
+ * Revokes the refresh token family behind the cookie; access tokens lapse within ACCESS_TOKEN_TTL.
+ */
+router.post('/logout', async (req, res) => {
+    const presented = readCookie(req, REFRESH_COOKIE);
+    clearRefreshCookie(res);
+    if (!presented) return res.json({ success: true });
+
+    try {
+        const result = await db.query('SELECT family_id FROM refresh_tokens WHERE token_hash = $1', [hashToken(presented)]);
+        if (result.rows[0]) await revokeFamily(result.rows[0].family_id);
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Logout Error:', err);
+        res.status(500).json({ message: 'Server error during logout.' });
+    }
+});
+
 /**
  * GET /api/auth/me
  */
 router.get('/me', authenticateToken, async (req, res) => {
     try {
-        const userResult = await db.query('SELECT id, username, email, full_name FROM users WHERE id = $1', [req.user.id]);
+        const userResult = await db.query('SELECT id, username, email, full_name, role FROM users WHERE id = $1', [req.user.id]);
         const user = userResult.rows[0];
 
         if (!user) {
@@ -125,4 +442,29 @@ router.get('/me', authenticateToken, async (req, res) => {
     }
 });
 
-module.exports = { router, authenticateToken };
+/**
+ * PATCH /api/auth/users/:id/role
+ * Admin-only: grant or revoke interviewer/admin access.
+ */
+router.patch('/users/:id/role', authenticateToken, requireRole('admin'), async (req, res) => {
+    const { role } = req.body;
+    if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${USER_ROLES.join(', ')}.` });
+    }
+
+    try {
+        const result = await db.query(
+            'UPDATE users SET role = $1 WHERE id = $2 RETURNING id, username, email, full_name, role',
+            [role, req.params.id]
+        );
+        if (!result.rows[0]) {
+            return res.status(404).json({ message: 'User not found.' });
+        }
+        res.json(result.rows[0]);
+    } catch (err) {
+        console.error('Role Update Error:', err);
+        res.status(500).json({ message: 'Server error updating role.' });
+    }
+});
+
+module.exports = { router, authenticateToken, requireRole, STAFF_ROLES };
@@ -0,0 +1,47 @@
+// Shared with the client (src/services/authValidation.ts) so both enforce the same rules
+const schema = require('../shared/authSchema.json');
+
+// Passwords opt out of trimming; every other field is validated and stored trimmed
+const normalize = (rule, value) => {
+    if (typeof value !== 'string') return '';
+    return rule.trim === false ? value : value.trim();
+};
+
+const checkField = (rule, text) => {
+    if (!text) return rule.required ? `${rule.label} is required.` : null;
+    if (rule.minLength && text.length < rule.minLength) return `${rule.label} must be at least ${rule.minLength} characters.`;
+    if (rule.maxLength && text.length > rule.maxLength) return `${rule.label} must be at most ${rule.maxLength} characters.`;
+    const failed = (rule.checks || []).find(check => !new RegExp(check.pattern).test(text));
+    return failed ? failed.message : null;
+};
+
+/**
+ * Validates a request body against one of the schema's forms.
+ * Returns field errors (empty when valid) and the normalized values.
+ */
+const validateForm = (formName, body = {}) => {
+    const errors = {};
+    const values = {};
+    Object.entries(schema.forms[formName]).forEach(([field, ruleName]) => {
+        const rule = schema.rules[ruleName];
+        values[field] = normalize(rule, body[field]);
+        const error = checkField(rule, values[field]);
+        if (error) errors[field] = error;
+    });
+    return { errors, values };
+};
+
+/**
+ * Middleware: rejects the request with field-level errors when the body fails the form's rules,
+ * otherwise replaces the form's fields in req.body with their normalized values.
+ */
+const validateBody = (formName) => (req, res, next) => {
+    const { errors, values } = validateForm(formName, req.body);
+    if (Object.keys(errors).length > 0) {
+        return res.status(400).json({ message: 'Please correct the highlighted fields.', errors });
+    }
+    req.body = { ...req.body, ...values };
+    next();
+};
+
+module.exports = { validateForm, validateBody };
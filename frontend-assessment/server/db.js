@@ -48,6 +48,15 @@ const initDb = async () => {
         full_name VARCHAR NOT NULL,
         created_at TIMESTAMPTZ DEFAULT now()
     );`,
+        `ALTER TABLE public.users ADD COLUMN IF NOT EXISTS role character varying DEFAULT 'candidate' NOT NULL;`,
+        `ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_role_check;`,
+        `ALTER TABLE public.users ADD CONSTRAINT users_role_check CHECK (role IN ('candidate', 'interviewer', 'admin'));`,
+        // Accounts that predate verification are backfilled as verified; new signups start unverified
+        `ALTER TABLE public.users ADD COLUMN IF NOT EXISTS email_verified boolean NOT NULL DEFAULT true;`,
+        `ALTER TABLE public.users ALTER COLUMN email_verified SET DEFAULT false;`,
+        `ALTER TABLE public.users ADD COLUMN IF NOT EXISTS failed_login_count integer NOT NULL DEFAULT 0;`,
+        `ALTER TABLE public.users ADD COLUMN IF NOT EXISTS last_failed_login_at timestamp with time zone;`,
+        `ALTER TABLE public.users ADD COLUMN IF NOT EXISTS locked_until timestamp with time zone;`,
         `CREATE TABLE IF NOT EXISTS public.interview_sessions (
         id SERIAL PRIMARY KEY,
         user_id integer NOT NULL REFERENCES public.users(id),
@@ -56,6 +65,12 @@ const initDb = async () => {
         total_risk_score numeric(5,2) DEFAULT 0.00,
         status character varying DEFAULT 'IN_PROGRESS'::character varying
     );`,
+        `ALTER TABLE public.interview_sessions ADD COLUMN IF NOT EXISTS domain character varying;`,
+        // total_risk_score holds only the proctoring score; the assessment score and end reason get their own columns
+        `ALTER TABLE public.interview_sessions ADD COLUMN IF NOT EXISTS total_score numeric(6,2);`,
+        `ALTER TABLE public.interview_sessions ADD COLUMN IF NOT EXISTS termination_reason character varying;`,
+        // The session API's id, so proctoring events can be checked against the session's candidate
+        `ALTER TABLE public.interview_sessions ADD COLUMN IF NOT EXISTS session_uuid character varying UNIQUE;`,
         `CREATE TABLE IF NOT EXISTS public.face_pose_events (
         id SERIAL PRIMARY KEY,
         session_id integer NOT NULL REFERENCES public.interview_sessions(id),
@@ -87,7 +102,95 @@ const initDb = async () => {
         candidate_answer text,
         ai_relevance_score numeric(5,2),
         ai_feedback text
-    );`
+    );`,
+        `CREATE TABLE IF NOT EXISTS public.proctoring_events (
+        id SERIAL PRIMARY KEY,
+        event_id character varying UNIQUE NOT NULL,
+        user_id integer NOT NULL REFERENCES public.users(id),
+        assessment_session_id character varying NOT NULL,
+        "timestamp" timestamp with time zone DEFAULT now(),
+        event_type character varying NOT NULL,
+        severity character varying NOT NULL,
+        severity_score integer DEFAULT 1,
+        question_index integer,
+        message text,
+        received_at timestamp with time zone DEFAULT now()
+    );`,
+        `CREATE INDEX IF NOT EXISTS proctoring_events_session_idx
+        ON public.proctoring_events (assessment_session_id, "timestamp");`,
+        `CREATE TABLE IF NOT EXISTS public.proctoring_policies (
+        id SERIAL PRIMARY KEY,
+        scope character varying UNIQUE NOT NULL,
+        policy jsonb NOT NULL DEFAULT '{}'::jsonb,
+        updated_at timestamp with time zone DEFAULT now()
+    );`,
+        `CREATE TABLE IF NOT EXISTS public.questions (
+        id SERIAL PRIMARY KEY,
+        text text NOT NULL,
+        domain character varying NOT NULL,
+        difficulty integer NOT NULL DEFAULT 1,
+        tags jsonb NOT NULL DEFAULT '[]'::jsonb,
+        rubric text,
+        status character varying NOT NULL DEFAULT 'active',
+        created_by integer REFERENCES public.users(id),
+        created_at timestamp with time zone DEFAULT now(),
+        updated_at timestamp with time zone DEFAULT now()
+    );`,
+        `CREATE INDEX IF NOT EXISTS questions_domain_idx
+        ON public.questions (domain, difficulty, status);`,
+        `ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS kind character varying NOT NULL DEFAULT 'long_text';`,
+        `ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS options jsonb NOT NULL DEFAULT '[]'::jsonb;`,
+        `ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS language character varying;`,
+        `ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS starter_code text;`,
+        `ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS answer_key jsonb NOT NULL DEFAULT '{}'::jsonb;`,
+        `ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS entry_point character varying;`,
+        `ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS test_cases jsonb NOT NULL DEFAULT '[]'::jsonb;`,
+        `ALTER TABLE public.answer_evaluations ADD COLUMN IF NOT EXISTS test_results jsonb;`,
+        `CREATE TABLE IF NOT EXISTS public.refresh_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES public.users(id),
+        token_hash character varying UNIQUE NOT NULL,
+        family_id character varying NOT NULL,
+        expires_at timestamp with time zone NOT NULL,
+        revoked_at timestamp with time zone,
+        created_at timestamp with time zone DEFAULT now()
+    );`,
+        `CREATE INDEX IF NOT EXISTS refresh_tokens_family_idx
+        ON public.refresh_tokens (family_id);`,
+        `CREATE TABLE IF NOT EXISTS public.login_attempts (
+        id SERIAL PRIMARY KEY,
+        email character varying NOT NULL,
+        user_id integer REFERENCES public.users(id),
+        ip_address character varying,
+        reason character varying NOT NULL,
+        attempted_at timestamp with time zone DEFAULT now()
+    );`,
+        `CREATE INDEX IF NOT EXISTS login_attempts_ip_idx
+        ON public.login_attempts (ip_address, attempted_at);`,
+        `CREATE TABLE IF NOT EXISTS public.auth_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES public.users(id),
+        purpose character varying NOT NULL,
+        token_hash character varying UNIQUE NOT NULL,
+        expires_at timestamp with time zone NOT NULL,
+        used_at timestamp with time zone,
+        created_at timestamp with time zone DEFAULT now()
+    );`,
+        `CREATE TABLE IF NOT EXISTS public.invitations (
+        id SERIAL PRIMARY KEY,
+        email character varying NOT NULL,
+        domain character varying NOT NULL,
+        deadline timestamp with time zone NOT NULL,
+        max_attempts integer NOT NULL DEFAULT 1,
+        created_by integer REFERENCES public.users(id),
+        user_id integer REFERENCES public.users(id),
+        accepted_at timestamp with time zone,
+        consumed_at timestamp with time zone,
+        session_id character varying,
+        created_at timestamp with time zone DEFAULT now()
+    );`,
+        `CREATE INDEX IF NOT EXISTS invitations_user_idx
+        ON public.invitations (user_id);`
     ];
 
     try {
@@ -100,7 +203,28 @@ const initDb = async () => {
     }
 };
 
+/**
+ * Runs work(client) inside a transaction on a single pooled connection.
+ * Commits when work resolves; rolls back and rethrows when it fails.
+ */
+const transaction = async (work) => {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const result = await work(client);
+        await client.query('COMMIT');
+        return result;
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+};
+
 module.exports = {
     query: (text, params) => pool.query(text, params),
+    transaction,
     initDb,
+    end: () => pool.end(),
 };
@@ -3,16 +3,25 @@ const express = require('express');
 const cors = require('cors');
 const db = require('./db');
 const { router: authRouter } = require('./auth');
+const { router: proctoringRouter } = require('./proctoring');
+const { router: questionsRouter } = require('./questions');
+const { router: invitationsRouter } = require('./invitations');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Login throttling keys on req.ip; trust X-Forwarded-For only from a local proxy (e.g. the Vite dev server)
+app.set('trust proxy', process.env.TRUST_PROXY || 'loopback');
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '2mb' })); // Question bank imports can be large
 
 // Routes
 app.use('/api/auth', authRouter);
+app.use('/api/proctoring', proctoringRouter);
+app.use('/api/questions', questionsRouter);
+app.use('/api/invitations', invitationsRouter);
 
 // Initialize DB and Start Server
 const startServer = async () => {
@@ -0,0 +1,191 @@
+const express = require('express');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const db = require('./db');
+const { authenticateToken, requireRole } = require('./auth');
+const { validateForm } = require('./authValidation');
+const { DOMAINS } = require('./questionFormat');
+const { sendMail } = require('./mailer');
+const router = express.Router();
+
+// Invitation links must survive restarts, so set INVITATION_SECRET (or JWT_SECRET) outside development.
+// Link tokens carry the 'invitation' audience, so even when signed with JWT_SECRET they never pass as access tokens.
+const INVITATION_SECRET = process.env.INVITATION_SECRET || process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.INVITATION_SECRET && !process.env.JWT_SECRET) {
+    console.warn('INVITATION_SECRET is not set; invitation links will stop working when the server restarts.');
+}
+
+const APP_URL = process.env.APP_URL || 'http://localhost:5173';
+const MAX_ATTEMPTS_LIMIT = 10;
+
+const INVITATION_COLUMNS = 'id, email, domain, deadline, max_attempts, user_id, accepted_at, consumed_at, session_id, created_at';
+
+const toInvitation = (row) => ({
+    invitationId: row.id,
+    email: row.email,
+    domain: row.domain,
+    deadline: row.deadline,
+    maxAttempts: row.max_attempts,
+    userId: row.user_id,
+    acceptedAt: row.accepted_at,
+    consumedAt: row.consumed_at,
+    sessionId: row.session_id,
+    createdAt: row.created_at,
+});
+
+/**
+ * Signs the link token; it expires with the invitation and only carries its id,
+ * the one-time state lives in the invitations row.
+ */
+const signInvitationToken = (row) => jwt.sign(
+    { purpose: 'invitation', invitationId: row.id },
+    INVITATION_SECRET,
+    { expiresIn: Math.max(1, Math.floor((new Date(row.deadline).getTime() - Date.now()) / 1000)), audience: 'invitation' }
+);
+
+/**
+ * Resolves a link token to its invitation row, or describes why it cannot be used.
+ */
+const loadInvitation = async (token) => {
+    let payload;
+    try {
+        payload = jwt.verify(token, INVITATION_SECRET);
+    } catch {
+        return { status: 410, message: 'This invitation link is invalid or has expired.' };
+    }
+    if (payload.purpose !== 'invitation') {
+        return { status: 410, message: 'This invitation link is invalid or has expired.' };
+    }
+
+    const result = await db.query(`SELECT ${INVITATION_COLUMNS} FROM invitations WHERE id = $1`, [payload.invitationId]);
+    const row = result.rows[0];
+    if (!row || new Date(row.deadline).getTime() <= Date.now()) {
+        return { status: 410, message: 'This invitation link is invalid or has expired.' };
+    }
+    if (row.consumed_at) {
+        return { status: 410, message: 'This invitation has already been used.' };
+    }
+    return { row };
+};
+
+/**
+ * Checks an admin's invitation payload; returns field errors keyed like the request body.
+ */
+const validateInvitation = ({ email, domain, deadline, maxAttempts }) => {
+    const { errors } = validateForm('invitation', { email });
+    if (!DOMAINS.includes(domain)) errors.domain = `Domain must be one of: ${DOMAINS.join(', ')}.`;
+    const deadlineAt = new Date(deadline);
+    if (!deadline || Number.isNaN(deadlineAt.getTime())) {
+        errors.deadline = 'Deadline must be a valid date.';
+    } else if (deadlineAt.getTime() <= Date.now()) {
+        errors.deadline = 'Deadline must be in the future.';
+    }
+    const attempts = Number(maxAttempts ?? 1);
+    if (!Number.isInteger(attempts) || attempts < 1 || attempts > MAX_ATTEMPTS_LIMIT) {
+        errors.maxAttempts = `Attempt limit must be a whole number from 1 to ${MAX_ATTEMPTS_LIMIT}.`;
+    }
+    return errors;
+};
+
+/**
+ * POST /api/invitations
+ * Creates an invitation for one candidate email and domain, emails the link and returns it.
+ */
+router.post('/', authenticateToken, requireRole('admin'), async (req, res) => {
+    const errors = validateInvitation(req.body);
+    if (Object.keys(errors).length > 0) {
+        return res.status(400).json({ message: 'Please correct the highlighted fields.', errors });
+    }
+    const { domain, deadline, maxAttempts } = req.body;
+    const email = req.body.email.trim();
+
+    try {
+        const result = await db.query(
+            `INSERT INTO invitations (email, domain, deadline, max_attempts, created_by)
+             VALUES ($1, $2, $3, $4, $5) RETURNING ${INVITATION_COLUMNS}`,
+            [email, domain, new Date(deadline), Number(maxAttempts ?? 1), req.user.id]
+        );
+        const row = result.rows[0];
+        const link = `${APP_URL}/invite/${signInvitationToken(row)}`;
+
+        try {
+            await sendMail({
+                to: email,
+                subject: 'You have been invited to an assessment',
+                text: `You have been invited to complete the ${domain} assessment.\n\nStart here:\n${link}\n\nThis link can be used once and expires on ${new Date(row.deadline).toUTCString()}.`,
+            });
+        } catch (mailErr) {
+            // The link is returned either way, so the recruiter can still share it directly
+            console.error('Invitation Mail Error:', mailErr);
+        }
+
+        res.status(201).json({ invitation: toInvitation(row), link });
+    } catch (err) {
+        console.error('Create Invitation Error:', err);
+        res.status(500).json({ message: 'Server error creating invitation.' });
+    }
+});
+
+/**
+ * GET /api/invitations/active
+ * The signed-in candidate's accepted invitation that has not been started yet, or null.
+ */
+router.get('/active', authenticateToken, async (req, res) => {
+    try {
+        const result = await db.query(
+            `SELECT ${INVITATION_COLUMNS} FROM invitations
+             WHERE user_id = $1 AND consumed_at IS NULL AND deadline > now()
+             ORDER BY deadline LIMIT 1`,
+            [req.user.id]
+        );
+        res.json(result.rows[0] ? toInvitation(result.rows[0]) : null);
+    } catch (err) {
+        console.error('Active Invitation Error:', err);
+        res.status(500).json({ message: 'Server error loading invitation.' });
+    }
+});
+
+/**
+ * GET /api/invitations/:token
+ * Public preview used to pre-fill the sign-up form from an invitation link.
+ */
+router.get('/:token', async (req, res) => {
+    try {
+        const { row, status, message } = await loadInvitation(req.params.token);
+        if (!row) return res.status(status).json({ message });
+        res.json({ email: row.email, domain: row.domain, deadline: row.deadline, maxAttempts: row.max_attempts });
+    } catch (err) {
+        console.error('Invitation Preview Error:', err);
+        res.status(500).json({ message: 'Server error loading invitation.' });
+    }
+});
+
+/**
+ * POST /api/invitations/:token/accept
+ * Binds the invitation to the signed-in candidate, whose email must match the invited one.
+ */
+router.post('/:token/accept', authenticateToken, requireRole('candidate'), async (req, res) => {
+    try {
+        const { row, status, message } = await loadInvitation(req.params.token);
+        if (!row) return res.status(status).json({ message });
+
+        if (row.email.toLowerCase() !== String(req.user.email).toLowerCase()) {
+            return res.status(403).json({ message: `This invitation was sent to ${row.email}. Sign in with that account to accept it.` });
+        }
+        if (row.user_id && row.user_id !== req.user.id) {
+            return res.status(409).json({ message: 'This invitation has already been accepted by another account.' });
+        }
+
+        const result = await db.query(
+            `UPDATE invitations SET user_id = $1, accepted_at = COALESCE(accepted_at, now())
+             WHERE id = $2 RETURNING ${INVITATION_COLUMNS}`,
+            [req.user.id, row.id]
+        );
+        res.json(toInvitation(result.rows[0]));
+    } catch (err) {
+        console.error('Accept Invitation Error:', err);
+        res.status(500).json({ message: 'Server error accepting invitation.' });
+    }
+});
+
+module.exports = { router };
@@ -0,0 +1,90 @@
+const db = require('./db');
+
+const IP_WINDOW_MINUTES = 15;
+const IP_MAX_FAILURES = 30;
+// Failures allowed before each further attempt must wait BACKOFF_BASE_SECONDS * 2^(extra failures)
+const FREE_FAILURES = 3;
+const BACKOFF_BASE_SECONDS = 2;
+const MAX_FAILED_LOGINS = 10;
+const LOCKOUT_MINUTES = 15;
+
+/**
+ * Describes why a login attempt is refused before the password is checked.
+ */
+const throttled = (status, code, message, retryAfterSeconds) => ({
+    status,
+    body: { code, message, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterSeconds)) },
+});
+
+/**
+ * Refuses the attempt when this IP has failed too often recently, across all accounts.
+ */
+const checkIp = async (ip) => {
+    const result = await db.query(
+        `SELECT count(*)::int AS failures, min(attempted_at) AS oldest
+         FROM login_attempts
+         WHERE ip_address = $1 AND attempted_at > now() - make_interval(mins => $2)`,
+        [ip, IP_WINDOW_MINUTES]
+    );
+    const { failures, oldest } = result.rows[0];
+    if (failures < IP_MAX_FAILURES) return null;
+
+    const retryAfter = IP_WINDOW_MINUTES * 60 - (Date.now() - new Date(oldest).getTime()) / 1000;
+    return throttled(429, 'RATE_LIMITED', 'Too many login attempts from this network.', retryAfter);
+};
+
+/**
+ * Reserves a password check for the account, refusing it while the account is locked or
+ * still inside its backoff delay. The attempt is counted as a failure up front in the same
+ * UPDATE that checks the limits, so parallel requests cannot all pass the same check;
+ * recordSuccess clears the count again. An expired lock starts the count afresh.
+ */
+const checkAccount = async (user) => {
+    const claimed = await db.query(
+        `UPDATE users SET
+            failed_login_count = CASE WHEN locked_until IS NOT NULL THEN 1 ELSE failed_login_count + 1 END,
+            last_failed_login_at = now(),
+            locked_until = CASE
+                WHEN locked_until IS NULL AND failed_login_count + 1 >= $2 THEN now() + make_interval(mins => $3)
+                ELSE NULL
+            END
+         WHERE id = $1
+           AND (locked_until IS NULL OR locked_until <= now())
+           AND (locked_until IS NOT NULL
+                OR failed_login_count < $4
+                OR last_failed_login_at IS NULL
+                OR last_failed_login_at <= now() - make_interval(secs => $5 * power(2, failed_login_count - $4)))
+         RETURNING id`,
+        [user.id, MAX_FAILED_LOGINS, LOCKOUT_MINUTES, FREE_FAILURES, BACKOFF_BASE_SECONDS]
+    );
+    if (claimed.rowCount > 0) return null;
+
+    // Refused: re-read the row for the reason and how long to wait
+    const result = await db.query('SELECT failed_login_count, last_failed_login_at, locked_until FROM users WHERE id = $1', [user.id]);
+    const current = result.rows[0] || {};
+    const now = Date.now();
+    const lockedFor = current.locked_until ? (new Date(current.locked_until).getTime() - now) / 1000 : 0;
+    if (lockedFor > 0) {
+        return throttled(423, 'ACCOUNT_LOCKED', 'This account is temporarily locked after repeated failed logins.', lockedFor);
+    }
+    const extraFailures = Math.max(0, (current.failed_login_count ?? 0) - FREE_FAILURES);
+    const waitSeconds = BACKOFF_BASE_SECONDS * 2 ** extraFailures
+        - (now - new Date(current.last_failed_login_at ?? now).getTime()) / 1000;
+    return throttled(429, 'RATE_LIMITED', 'Too many failed attempts for this account.', waitSeconds);
+};
+
+/**
+ * Writes the audit row for a failed attempt. The account's failure count was already
+ * advanced (and the account locked once MAX_FAILED_LOGINS is reached) by checkAccount.
+ */
+const recordFailure = ({ email, user, ip, reason }) => db.query(
+    'INSERT INTO login_attempts (email, user_id, ip_address, reason) VALUES ($1, $2, $3, $4)',
+    [email, user?.id ?? null, ip, reason]
+);
+
+const recordSuccess = (userId) => db.query(
+    'UPDATE users SET failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL WHERE id = $1',
+    [userId]
+);
+
+module.exports = { checkIp, checkAccount, recordFailure, recordSuccess };
@@ -0,0 +1,53 @@
+const fs = require('fs');
+const path = require('path');
+
+const OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.join(__dirname, 'outbox');
+const MAIL_FROM = process.env.MAIL_FROM || 'no-reply@assessment.local';
+const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+
+/**
+ * Development transport: writes each message to a JSON file in the outbox
+ * directory, so verification and reset links work offline. Only the envelope
+ * is logged; bodies carry live tokens and stay out of the logs.
+ */
+const outboxTransport = {
+    async send(message) {
+        await fs.promises.mkdir(OUTBOX_DIR, { recursive: true });
+        const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.]/g, '_')}.json`;
+        await fs.promises.writeFile(path.join(OUTBOX_DIR, fileName), JSON.stringify(message, null, 2));
+        console.log(`[Mail] ${message.subject} -> ${message.to} (outbox/${fileName})`);
+    },
+};
+
+const consoleTransport = {
+    async send(message) {
+        console.log(`[Mail] ${message.subject} -> ${message.to}`);
+    },
+};
+
+// Used in production until a real transport is set, so mail is never silently written to disk or logs
+const unconfiguredTransport = {
+    async send() {
+        throw new Error('No mail transport is configured. Call setTransport() with an SMTP or provider client.');
+    },
+};
+
+// The development transports are not available in production
+const TRANSPORTS = IS_PRODUCTION ? {} : { outbox: outboxTransport, console: consoleTransport };
+
+let transport = TRANSPORTS[process.env.MAIL_TRANSPORT] || (IS_PRODUCTION ? unconfiguredTransport : outboxTransport);
+if (IS_PRODUCTION && transport === unconfiguredTransport) {
+    console.error('[Mail] No mail transport is configured; verification, reset and invitation emails will fail until setTransport() is called.');
+}
+
+/**
+ * Replaces the active transport, e.g. with an SMTP or provider-API client.
+ * A transport is any object with an async send({ from, to, subject, text }).
+ */
+const setTransport = (nextTransport) => {
+    transport = nextTransport;
+};
+
+const sendMail = ({ to, subject, text }) => transport.send({ from: MAIL_FROM, to, subject, text });
+
+module.exports = { sendMail, setTransport };
@@ -0,0 +1,152 @@
+const express = require('express');
+const db = require('./db');
+const { authenticateToken, STAFF_ROLES } = require('./auth');
+const router = express.Router();
+
+const VIOLATION_KINDS = ['blur', 'fullscreen_exit', 'context_menu', 'restricted_key', 'multi_touch', 'session_takeover', 'screen_share_stopped'];
+// Notes a client may log for reviewers; they carry no policy weight
+const CLIENT_NOTE_KINDS = ['screen_share_unverified'];
+const SEVERITY_SCORES = { low: 1, medium: 2, high: 3 };
+const MAX_BATCH_SIZE = 100;
+
+// Used when no policy row exists for the requested assessment or domain
+const DEFAULT_POLICY = {
+    policyId: 'default',
+    weights: { blur: 1, fullscreen_exit: 1, context_menu: 1, restricted_key: 1, multi_touch: 1, session_takeover: 1, screen_share_stopped: 1 },
+    graceWindowsMs: { blur: 2000, fullscreen_exit: 2000, context_menu: 2000, restricted_key: 2000, multi_touch: 2000, session_takeover: 0, screen_share_stopped: 2000 },
+    enabledListeners: { blur: true, fullscreen_exit: true, context_menu: true, restricted_key: true, multi_touch: true, session_takeover: true, screen_share_stopped: true },
+    maxScore: 5,
+    onLimitReached: 'terminate',
+    resultsVisibility: 'scores',
+};
+
+/**
+ * Fills any fields missing from a stored (possibly partial) policy with defaults.
+ */
+const mergePolicy = (policyId, stored = {}) => ({
+    policyId,
+    weights: { ...DEFAULT_POLICY.weights, ...stored.weights },
+    graceWindowsMs: { ...DEFAULT_POLICY.graceWindowsMs, ...stored.graceWindowsMs },
+    enabledListeners: { ...DEFAULT_POLICY.enabledListeners, ...stored.enabledListeners },
+    maxScore: Number(stored.maxScore) > 0 ? Number(stored.maxScore) : DEFAULT_POLICY.maxScore,
+    onLimitReached: stored.onLimitReached === 'flag' ? 'flag' : DEFAULT_POLICY.onLimitReached,
+    resultsVisibility: stored.resultsVisibility === 'confirmation' ? 'confirmation' : DEFAULT_POLICY.resultsVisibility,
+});
+
+/**
+ * GET /api/proctoring/policy?assessmentId=&domain=
+ * Resolves the most specific policy: assessment, then domain, then 'default'.
+ */
+router.get('/policy', authenticateToken, async (req, res) => {
+    const { assessmentId, domain } = req.query;
+    const scopes = [assessmentId && `assessment:${assessmentId}`, domain && `domain:${domain}`, 'default'].filter(Boolean);
+
+    try {
+        const result = await db.query(
+            'SELECT scope, policy FROM proctoring_policies WHERE scope = ANY($1)',
+            [scopes]
+        );
+        const match = scopes
+            .map(scope => result.rows.find(row => row.scope === scope))
+            .find(Boolean);
+
+        res.json(match ? mergePolicy(match.scope, match.policy) : DEFAULT_POLICY);
+    } catch (err) {
+        console.error('Proctoring Policy Error:', err);
+        res.status(500).json({ message: 'Server error loading proctoring policy.' });
+    }
+});
+
+/**
+ * POST /api/proctoring/events
+ * Accepts a batch of client-side violation events and notes for one assessment session.
+ */
+router.post('/events', authenticateToken, async (req, res) => {
+    const { events } = req.body;
+
+    if (!Array.isArray(events) || events.length === 0) {
+        return res.status(400).json({ message: 'A non-empty events array is required.' });
+    }
+    if (events.length > MAX_BATCH_SIZE) {
+        return res.status(413).json({ message: `A batch may contain at most ${MAX_BATCH_SIZE} events.` });
+    }
+
+    const invalid = events.findIndex(e =>
+        !e || !e.eventId || !e.sessionId || ![...VIOLATION_KINDS, ...CLIENT_NOTE_KINDS].includes(e.kind) || !SEVERITY_SCORES[e.severity]
+    );
+    if (invalid !== -1) {
+        return res.status(400).json({ message: `Event at index ${invalid} is malformed.` });
+    }
+
+    try {
+        // Events may only be logged against the caller's own sessions (started by the session API)
+        const sessionIds = [...new Set(events.map(e => String(e.sessionId)))];
+        const owned = await db.query(
+            'SELECT session_uuid FROM interview_sessions WHERE session_uuid = ANY($1) AND user_id = $2',
+            [sessionIds, req.user.id]
+        );
+        if (owned.rowCount !== sessionIds.length) {
+            return res.status(403).json({ message: 'Events can only be recorded for your own assessment sessions.' });
+        }
+
+        let stored = 0;
+        for (const e of events) {
+            // event_id is client-generated so a retried batch never duplicates rows
+            const result = await db.query(
+                `INSERT INTO proctoring_events
+                    (event_id, user_id, assessment_session_id, "timestamp", event_type, severity, severity_score, question_index, message)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+                 ON CONFLICT (event_id) DO NOTHING`,
+                [
+                    e.eventId,
+                    req.user.id,
+                    e.sessionId,
+                    e.timestamp || new Date().toISOString(),
+                    e.kind,
+                    e.severity,
+                    SEVERITY_SCORES[e.severity],
+                    Number.isInteger(e.questionIndex) ? e.questionIndex : null,
+                    e.message || null,
+                ]
+            );
+            stored += result.rowCount;
+        }
+
+        res.status(201).json({ success: true, received: events.length, stored });
+    } catch (err) {
+        console.error('Proctoring Event Error:', err);
+        res.status(500).json({ success: false, message: 'Server error while recording proctoring events.' });
+    }
+});
+
+/**
+ * GET /api/proctoring/sessions/:sessionId/events
+ * Returns the recorded violation log for a session in chronological order.
+ * Candidates only see their own sessions; interviewers and admins can review any session,
+ * but only the events recorded for the session's own candidate.
+ */
+router.get('/sessions/:sessionId/events', authenticateToken, async (req, res) => {
+    const isStaff = STAFF_ROLES.includes(req.user.role);
+    try {
+        let candidateId = req.user.id;
+        if (isStaff) {
+            const session = await db.query('SELECT user_id FROM interview_sessions WHERE session_uuid = $1', [req.params.sessionId]);
+            if (session.rowCount === 0) return res.json([]);
+            candidateId = session.rows[0].user_id;
+        }
+        const result = await db.query(
+            `SELECT event_id AS "eventId", assessment_session_id AS "sessionId", "timestamp", event_type AS kind,
+                    severity, question_index AS "questionIndex", message
+             FROM proctoring_events
+             WHERE assessment_session_id = $1 AND user_id = $2
+             ORDER BY "timestamp" ASC`,
+            [req.params.sessionId, candidateId]
+        );
+        res.json(result.rows);
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ message: 'Server error fetching proctoring events.' });
+    }
+});
+
+module.exports = { router };
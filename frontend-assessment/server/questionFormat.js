@@ -0,0 +1,393 @@
+// Shared validation and JSON/CSV (de)serialization for the question bank
+
+// Domain ids match the cards in src/assessment/DomainSelection.jsx
+const DOMAINS = ['frontend', 'backend', 'fullstack', 'uiux', 'security', 'devops'];
+const STATUSES = ['active', 'retired'];
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 3;
+
+// Question kinds match the discriminated union in src/types/session.ts
+const QUESTION_KINDS = ['single_choice', 'multi_choice', 'code', 'short_text', 'long_text'];
+const CHOICE_KINDS = ['single_choice', 'multi_choice'];
+const CODE_LANGUAGES = ['javascript', 'typescript', 'python', 'java', 'sql'];
+
+const CSV_COLUMNS = ['text', 'domain', 'difficulty', 'rubric', 'tags', 'status', 'kind', 'options', 'correct_options', 'accepted_answers', 'language', 'starter_code', 'entry_point', 'test_cases'];
+// List cells separate values with '|'; a literal '|' or '\' inside a value is escaped with a backslash
+const CSV_LIST_SEPARATOR = '|';
+const CSV_LIST_ESCAPE = '\\';
+const EXPORT_VERSION = 1;
+
+/**
+ * JSON Schema for the question bank import/export document.
+ */
+const QUESTION_IMPORT_SCHEMA = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'Question bank import',
+    type: 'object',
+    required: ['questions'],
+    properties: {
+        version: { type: 'integer', const: EXPORT_VERSION },
+        questions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['text', 'domain', 'difficulty'],
+                additionalProperties: false,
+                properties: {
+                    text: { type: 'string', minLength: 1 },
+                    domain: { type: 'string', enum: DOMAINS },
+                    difficulty: { type: 'integer', minimum: MIN_DIFFICULTY, maximum: MAX_DIFFICULTY },
+                    rubric: { type: 'string' },
+                    tags: { type: 'array', items: { type: 'string' } },
+                    status: { type: 'string', enum: STATUSES },
+                    kind: { type: 'string', enum: QUESTION_KINDS, default: 'long_text' },
+                    options: {
+                        type: 'array',
+                        items: {
+                            oneOf: [
+                                { type: 'string' },
+                                {
+                                    type: 'object',
+                                    required: ['optionId', 'text'],
+                                    properties: { optionId: { type: 'string' }, text: { type: 'string' } },
+                                },
+                            ],
+                        },
+                    },
+                    correctOptionIds: { type: 'array', items: { type: 'string' } },
+                    acceptedAnswers: { type: 'array', items: { type: 'string' } },
+                    language: { type: 'string', enum: CODE_LANGUAGES },
+                    starterCode: { type: 'string' },
+                    entryPoint: { type: 'string', pattern: '^[A-Za-z_$][\\w$]*$' },
+                    testCases: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['input', 'expected'],
+                            properties: {
+                                testId: { type: 'string' },
+                                input: { type: 'array' },
+                                expected: {},
+                                hidden: { type: 'boolean', default: false },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    },
+};
+
+/**
+ * Normalizes choice options given as plain strings or { optionId, text } objects.
+ * Plain strings get positional ids: a, b, c, ...
+ */
+const normalizeOptions = (options) => (Array.isArray(options) ? options : []).map((option, index) => {
+    const isObject = typeof option === 'object' && option !== null;
+    return {
+        optionId: isObject && option.optionId ? String(option.optionId).trim() : String.fromCharCode(97 + index),
+        text: String(isObject ? option.text ?? '' : option ?? '').trim(),
+    };
+});
+
+/**
+ * Validates a question payload and returns its normalized form plus any field errors.
+ */
+const validateQuestion = (input = {}) => {
+    const errors = {};
+    const text = typeof input.text === 'string' ? input.text.trim() : '';
+    const difficulty = Number(input.difficulty);
+    const tags = Array.isArray(input.tags) ? input.tags : [];
+    const kind = input.kind || 'long_text';
+    const isChoice = CHOICE_KINDS.includes(kind);
+    const options = isChoice ? normalizeOptions(input.options) : [];
+    const correctOptionIds = isChoice && Array.isArray(input.correctOptionIds)
+        ? [...new Set(input.correctOptionIds.map(id => String(id).trim()))]
+        : [];
+    const acceptedAnswers = kind === 'short_text' && Array.isArray(input.acceptedAnswers)
+        ? input.acceptedAnswers.map(answer => String(answer).trim()).filter(Boolean)
+        : [];
+    const entryPoint = kind === 'code' && typeof input.entryPoint === 'string' ? input.entryPoint.trim() : '';
+    const testCases = kind === 'code' && Array.isArray(input.testCases)
+        ? input.testCases.map((testCase, index) => ({
+            testId: testCase?.testId ? String(testCase.testId) : `t${index + 1}`,
+            input: testCase?.input,
+            expected: testCase?.expected,
+            hidden: Boolean(testCase?.hidden),
+        }))
+        : [];
+
+    if (!text) errors.text = 'Question text is required.';
+    if (!DOMAINS.includes(input.domain)) errors.domain = `Domain must be one of: ${DOMAINS.join(', ')}.`;
+    if (!Number.isInteger(difficulty) || difficulty < MIN_DIFFICULTY || difficulty > MAX_DIFFICULTY) {
+        errors.difficulty = `Difficulty must be an integer from ${MIN_DIFFICULTY} to ${MAX_DIFFICULTY}.`;
+    }
+    if (!tags.every(tag => typeof tag === 'string')) errors.tags = 'Tags must be strings.';
+    if (input.status !== undefined && !STATUSES.includes(input.status)) {
+        errors.status = `Status must be one of: ${STATUSES.join(', ')}.`;
+    }
+    if (!QUESTION_KINDS.includes(kind)) {
+        errors.kind = `Kind must be one of: ${QUESTION_KINDS.join(', ')}.`;
+    }
+    if (isChoice) {
+        const optionIds = options.map(option => option.optionId);
+        if (options.length < 2 || options.some(option => !option.text)) {
+            errors.options = 'Choice questions need at least two non-empty options.';
+        } else if (new Set(optionIds).size !== optionIds.length) {
+            errors.options = 'Option ids must be unique.';
+        }
+        if (correctOptionIds.length === 0 || correctOptionIds.some(id => !optionIds.includes(id))) {
+            errors.correctOptionIds = 'Mark at least one of the listed options as correct.';
+        } else if (kind === 'single_choice' && correctOptionIds.length !== 1) {
+            errors.correctOptionIds = 'Single-choice questions have exactly one correct option.';
+        }
+    }
+    if (kind === 'code' && !CODE_LANGUAGES.includes(input.language)) {
+        errors.language = `Language must be one of: ${CODE_LANGUAGES.join(', ')}.`;
+    }
+    if (kind === 'code' && input.testCases != null && !Array.isArray(input.testCases)) {
+        errors.testCases = 'Test cases must be a JSON array.';
+    }
+    if (testCases.length > 0) {
+        // The entry point is interpolated into the test harness, so only plain identifiers are allowed
+        if (!/^[A-Za-z_$][\w$]*$/.test(entryPoint)) {
+            errors.entryPoint = 'Test cases need the name of the function they call.';
+        }
+        if (testCases.some(testCase => !Array.isArray(testCase.input) || testCase.expected === undefined)) {
+            errors.testCases = 'Each test case needs an input argument array and an expected value.';
+        } else if (new Set(testCases.map(testCase => testCase.testId)).size !== testCases.length) {
+            errors.testCases = 'Test case ids must be unique.';
+        }
+    }
+
+    return {
+        errors,
+        question: {
+            text,
+            domain: input.domain,
+            difficulty,
+            tags: [...new Set(tags.map(tag => String(tag).trim().toLowerCase()).filter(Boolean))],
+            rubric: typeof input.rubric === 'string' ? input.rubric.trim() : '',
+            status: input.status || 'active',
+            kind,
+            options,
+            correctOptionIds,
+            acceptedAnswers,
+            language: kind === 'code' ? input.language : null,
+            starterCode: kind === 'code' && typeof input.starterCode === 'string' ? input.starterCode : '',
+            entryPoint,
+            testCases,
+        },
+    };
+};
+
+/**
+ * Canonical form used for duplicate detection: case, punctuation and spacing are ignored.
+ */
+const normalizeText = (text) => String(text || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Parses RFC 4180 CSV (quoted fields, escaped quotes, embedded newlines) into rows of strings.
+ */
+const parseCsv = (input) => {
+    const rows = [];
+    let row = [];
+    let field = '';
+    let inQuotes = false;
+    const text = String(input).replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Joins list values into one CSV cell, escaping separators and escapes inside the values.
+ */
+const joinList = (values) => (values || [])
+    .map(value => String(value).replaceAll(CSV_LIST_ESCAPE, CSV_LIST_ESCAPE + CSV_LIST_ESCAPE)
+        .replaceAll(CSV_LIST_SEPARATOR, CSV_LIST_ESCAPE + CSV_LIST_SEPARATOR))
+    .join(CSV_LIST_SEPARATOR);
+
+/**
+ * Splits a list cell written by joinList (or by hand) back into its values.
+ */
+const splitList = (cell) => {
+    if (!cell) return [];
+    const values = [];
+    let value = '';
+    for (let i = 0; i < cell.length; i++) {
+        if (cell[i] === CSV_LIST_ESCAPE && i + 1 < cell.length) {
+            value += cell[++i];
+        } else if (cell[i] === CSV_LIST_SEPARATOR) {
+            values.push(value);
+            value = '';
+        } else {
+            value += cell[i];
+        }
+    }
+    values.push(value);
+    return values;
+};
+
+/**
+ * Converts CSV text into raw question inputs tagged with their 1-based file line.
+ * Throws if the header row is missing required columns.
+ */
+const questionsFromCsv = (csvText) => {
+    const [header, ...rows] = parseCsv(csvText);
+    if (!header) return [];
+
+    const columns = header.map(h => h.trim().toLowerCase());
+    const missing = ['text', 'domain', 'difficulty'].filter(c => !columns.includes(c));
+    if (missing.length > 0) {
+        throw new Error(`CSV header is missing required column(s): ${missing.join(', ')}.`);
+    }
+
+    const parseTestCases = (value) => {
+        if (!value) return [];
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value; // Not an array, so validateQuestion rejects it
+        }
+    };
+
+    return rows.map((cells, index) => {
+        const record = Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()]));
+        return {
+            row: index + 2, // Header is line 1
+            input: {
+                text: record.text,
+                domain: record.domain,
+                difficulty: record.difficulty,
+                rubric: record.rubric || '',
+                tags: splitList(record.tags),
+                kind: record.kind || 'long_text',
+                options: splitList(record.options),
+                correctOptionIds: splitList(record.correct_options),
+                acceptedAnswers: splitList(record.accepted_answers),
+                language: record.language || undefined,
+                starterCode: record.starter_code || '',
+                entryPoint: record.entry_point || '',
+                testCases: parseTestCases(record.test_cases),
+                ...(record.status ? { status: record.status } : {}),
+            },
+        };
+    });
+};
+
+/**
+ * Converts a JSON import document (or a bare array) into raw question inputs tagged with their 1-based position.
+ */
+const questionsFromJson = (document) => {
+    const questions = Array.isArray(document) ? document : document?.questions;
+    if (!Array.isArray(questions)) {
+        throw new Error('JSON import must be an array or an object with a "questions" array.');
+    }
+    return questions.map((input, index) => ({ row: index + 1, input }));
+};
+
+const escapeCsv = (value) => {
+    const text = String(value ?? '');
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes questions to CSV using the import column layout.
+ * Choice options are written as text only, so exported ids follow the positional a, b, c scheme.
+ */
+const questionsToCsv = (questions) => [
+    CSV_COLUMNS.join(','),
+    ...questions.map(q => {
+        const options = q.options || [];
+        const positionalIds = (q.correctOptionIds || [])
+            .map(id => options.findIndex(option => option.optionId === id))
+            .filter(index => index >= 0)
+            .map(index => String.fromCharCode(97 + index));
+        return [
+            q.text,
+            q.domain,
+            q.difficulty,
+            q.rubric,
+            joinList(q.tags),
+            q.status || 'active',
+            q.kind || 'long_text',
+            joinList(options.map(option => option.text)),
+            joinList(positionalIds),
+            joinList(q.acceptedAnswers),
+            q.language || '',
+            q.starterCode || '',
+            q.entryPoint || '',
+            q.testCases?.length ? JSON.stringify(q.testCases) : '',
+        ].map(escapeCsv).join(',');
+    }),
+].join('\r\n');
+
+/**
+ * Serializes questions to the versioned JSON export document.
+ */
+const questionsToJson = (questions) => ({
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    questions: questions.map(q => ({
+        text: q.text,
+        domain: q.domain,
+        difficulty: q.difficulty,
+        rubric: q.rubric || '',
+        tags: q.tags || [],
+        status: q.status,
+        kind: q.kind || 'long_text',
+        ...(CHOICE_KINDS.includes(q.kind) ? { options: q.options, correctOptionIds: q.correctOptionIds } : {}),
+        ...(q.kind === 'short_text' ? { acceptedAnswers: q.acceptedAnswers || [] } : {}),
+        ...(q.kind === 'code'
+            ? { language: q.language, starterCode: q.starterCode || '', entryPoint: q.entryPoint || '', testCases: q.testCases || [] }
+            : {}),
+    })),
+});
+
+module.exports = {
+    DOMAINS,
+    STATUSES,
+    QUESTION_KINDS,
+    CODE_LANGUAGES,
+    QUESTION_IMPORT_SCHEMA,
+    validateQuestion,
+    normalizeText,
+    questionsFromCsv,
+    questionsFromJson,
+    questionsToCsv,
+    questionsToJson,
+};
@@ -0,0 +1,307 @@
+const express = require('express');
+const db = require('./db');
+const { authenticateToken, requireRole } = require('./auth');
+const {
+    QUESTION_IMPORT_SCHEMA,
+    validateQuestion,
+    normalizeText,
+    questionsFromCsv,
+    questionsFromJson,
+    questionsToCsv,
+    questionsToJson,
+} = require('./questionFormat');
+const router = express.Router();
+
+const QUESTION_COLUMNS = `id, text, domain, difficulty, tags, rubric, status, kind, options, language, starter_code, answer_key, entry_point, test_cases, created_at, updated_at`;
+
+/**
+ * Maps a questions row to the camelCase shape used by the frontend.
+ */
+const toQuestion = (row) => ({
+    questionId: String(row.id),
+    text: row.text,
+    domain: row.domain,
+    difficulty: row.difficulty,
+    tags: row.tags || [],
+    rubric: row.rubric || '',
+    status: row.status,
+    kind: row.kind,
+    options: row.options || [],
+    correctOptionIds: row.answer_key?.correctOptionIds || [],
+    acceptedAnswers: row.answer_key?.acceptedAnswers || [],
+    language: row.language,
+    starterCode: row.starter_code || '',
+    entryPoint: row.entry_point || '',
+    testCases: row.test_cases || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+/**
+ * Builds a WHERE clause from list/export query filters.
+ */
+const buildFilters = ({ domain, difficulty, status, tag, search }) => {
+    const conditions = [];
+    const params = [];
+
+    if (domain) {
+        params.push(domain);
+        conditions.push(`domain = $${params.length}`);
+    }
+    if (difficulty) {
+        params.push(Number(difficulty));
+        conditions.push(`difficulty = $${params.length}`);
+    }
+    if (status) {
+        params.push(status);
+        conditions.push(`status = $${params.length}`);
+    }
+    if (tag) {
+        params.push(JSON.stringify([String(tag).toLowerCase()]));
+        conditions.push(`tags @> $${params.length}::jsonb`);
+    }
+    if (search) {
+        params.push(`%${search}%`);
+        conditions.push(`text ILIKE $${params.length}`);
+    }
+
+    return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+/**
+ * Column values shared by insert and update, in column order.
+ * The answer key is stored apart from the options so it can never leak with them.
+ */
+const toRowValues = (question) => [
+    question.text,
+    question.domain,
+    question.difficulty,
+    JSON.stringify(question.tags),
+    question.rubric,
+    question.status,
+    question.kind,
+    JSON.stringify(question.options),
+    question.language,
+    question.starterCode,
+    JSON.stringify({ correctOptionIds: question.correctOptionIds, acceptedAnswers: question.acceptedAnswers }),
+    question.entryPoint,
+    JSON.stringify(question.testCases),
+];
+
+const insertQuestion = (question, userId, client = db) => client.query(
+    `INSERT INTO questions (text, domain, difficulty, tags, rubric, status, kind, options, language, starter_code, answer_key, entry_point, test_cases, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     RETURNING ${QUESTION_COLUMNS}`,
+    [...toRowValues(question), userId]
+);
+
+router.use(authenticateToken, requireRole('admin'));
+
+/**
+ * GET /api/questions?domain=&difficulty=&status=&tag=&search=
+ */
+router.get('/', async (req, res) => {
+    try {
+        const { where, params } = buildFilters(req.query);
+        const result = await db.query(
+            `SELECT ${QUESTION_COLUMNS} FROM questions ${where} ORDER BY domain, difficulty, id`,
+            params
+        );
+        res.json(result.rows.map(toQuestion));
+    } catch (err) {
+        console.error('Question List Error:', err);
+        res.status(500).json({ message: 'Server error fetching questions.' });
+    }
+});
+
+/**
+ * GET /api/questions/schema
+ * JSON Schema describing the import/export document.
+ */
+router.get('/schema', (req, res) => {
+    res.json(QUESTION_IMPORT_SCHEMA);
+});
+
+/**
+ * GET /api/questions/export?format=json|csv&domain=&status=...
+ */
+router.get('/export', async (req, res) => {
+    const format = req.query.format === 'csv' ? 'csv' : 'json';
+
+    try {
+        const { where, params } = buildFilters(req.query);
+        const result = await db.query(
+            `SELECT ${QUESTION_COLUMNS} FROM questions ${where} ORDER BY domain, difficulty, id`,
+            params
+        );
+        const questions = result.rows.map(toQuestion);
+        const filename = `question-bank-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        if (format === 'csv') {
+            res.type('text/csv').send(questionsToCsv(questions));
+        } else {
+            res.json(questionsToJson(questions));
+        }
+    } catch (err) {
+        console.error('Question Export Error:', err);
+        res.status(500).json({ message: 'Server error exporting questions.' });
+    }
+});
+
+/**
+ * GET /api/questions/:id
+ */
+router.get('/:id', async (req, res) => {
+    try {
+        const result = await db.query(`SELECT ${QUESTION_COLUMNS} FROM questions WHERE id = $1`, [req.params.id]);
+        if (result.rows.length === 0) {
+            return res.status(404).json({ message: 'Question not found.' });
+        }
+        res.json(toQuestion(result.rows[0]));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ message: 'Server error fetching question.' });
+    }
+});
+
+/**
+ * POST /api/questions
+ */
+router.post('/', async (req, res) => {
+    const { errors, question } = validateQuestion(req.body);
+    if (Object.keys(errors).length > 0) {
+        return res.status(400).json({ message: 'Invalid question.', errors });
+    }
+
+    try {
+        const result = await insertQuestion(question, req.user.id);
+        res.status(201).json(toQuestion(result.rows[0]));
+    } catch (err) {
+        console.error('Question Create Error:', err);
+        res.status(500).json({ message: 'Server error creating question.' });
+    }
+});
+
+/**
+ * POST /api/questions/import
+ * Body: { format: 'json' | 'csv', data: string | object, dryRun?: boolean }
+ * Validates every row, skips duplicates (by normalized text, against the bank and
+ * earlier rows of the same file) and reports per-row issues. Valid rows are inserted in
+ * a single transaction; a dry run writes nothing.
+ */
+router.post('/import', async (req, res) => {
+    const { format = 'json', data, dryRun = false } = req.body;
+
+    let rows;
+    try {
+        rows = format === 'csv'
+            ? questionsFromCsv(typeof data === 'string' ? data : '')
+            : questionsFromJson(typeof data === 'string' ? JSON.parse(data) : data);
+    } catch (err) {
+        return res.status(400).json({ message: `Could not parse ${format.toUpperCase()} import: ${err.message}` });
+    }
+    if (rows.length === 0) {
+        return res.status(400).json({ message: 'The import file contains no questions.' });
+    }
+
+    try {
+        const existing = await db.query('SELECT text FROM questions');
+        const seen = new Set(existing.rows.map(row => normalizeText(row.text)));
+        const fileRows = new Map();
+
+        const results = rows.map(({ row, input }) => {
+            const { errors, question } = validateQuestion(input);
+            if (Object.keys(errors).length > 0) {
+                return { row, status: 'invalid', errors, question };
+            }
+
+            const key = normalizeText(question.text);
+            if (fileRows.has(key)) {
+                return { row, status: 'duplicate', duplicateOf: `row ${fileRows.get(key)}`, question };
+            }
+            if (seen.has(key)) {
+                return { row, status: 'duplicate', duplicateOf: 'question bank', question };
+            }
+            fileRows.set(key, row);
+            return { row, status: 'valid', question };
+        });
+
+        const toImport = results.filter(r => r.status === 'valid');
+        let imported = 0;
+        if (!dryRun) {
+            // All or nothing: a failed insert rolls back the rows before it
+            await db.transaction(async (client) => {
+                for (const result of toImport) {
+                    await insertQuestion(result.question, req.user.id, client);
+                }
+            });
+            imported = toImport.length;
+        }
+
+        res.status(dryRun ? 200 : 201).json({
+            success: true,
+            dryRun: Boolean(dryRun),
+            total: results.length,
+            valid: toImport.length,
+            imported,
+            duplicates: results.filter(r => r.status === 'duplicate').length,
+            invalid: results.filter(r => r.status === 'invalid').length,
+            rows: results,
+        });
+    } catch (err) {
+        console.error('Question Import Error:', err);
+        res.status(500).json({ message: 'Server error importing questions.' });
+    }
+});
+
+/**
+ * PUT /api/questions/:id
+ */
+router.put('/:id', async (req, res) => {
+    const { errors, question } = validateQuestion(req.body);
+    if (Object.keys(errors).length > 0) {
+        return res.status(400).json({ message: 'Invalid question.', errors });
+    }
+
+    try {
+        const result = await db.query(
+            `UPDATE questions
+             SET text = $1, domain = $2, difficulty = $3, tags = $4, rubric = $5, status = $6,
+                 kind = $7, options = $8, language = $9, starter_code = $10, answer_key = $11,
+                 entry_point = $12, test_cases = $13, updated_at = now()
+             WHERE id = $14
+             RETURNING ${QUESTION_COLUMNS}`,
+            [...toRowValues(question), req.params.id]
+        );
+        if (result.rows.length === 0) {
+            return res.status(404).json({ message: 'Question not found.' });
+        }
+        res.json(toQuestion(result.rows[0]));
+    } catch (err) {
+        console.error('Question Update Error:', err);
+        res.status(500).json({ message: 'Server error updating question.' });
+    }
+});
+
+/**
+ * POST /api/questions/:id/retire
+ * Soft-deletes a question so past sessions keep their references.
+ */
+router.post('/:id/retire', async (req, res) => {
+    try {
+        const result = await db.query(
+            `UPDATE questions SET status = 'retired', updated_at = now() WHERE id = $1 RETURNING ${QUESTION_COLUMNS}`,
+            [req.params.id]
+        );
+        if (result.rows.length === 0) {
+            return res.status(404).json({ message: 'Question not found.' });
+        }
+        res.json(toQuestion(result.rows[0]));
+    } catch (err) {
+        console.error('Question Retire Error:', err);
+        res.status(500).json({ message: 'Server error retiring question.' });
+    }
+});
+
+module.exports = { router };
@@ -0,0 +1,34 @@
+/**
+ * Grants the admin role to an existing account: npm run promote-admin -- <email>
+ * Roles are otherwise only changed through the admin-only PATCH /api/auth/users/:id/role,
+ * so this is how the first admin of a fresh install is created. The account signs up as usual first.
+ */
+const db = require('../db');
+
+const promoteAdmin = async (email) => {
+    if (!email) {
+        console.error('Usage: npm run promote-admin -- <email>');
+        return 1;
+    }
+    await db.initDb(); // A fresh database needs the role column before anyone can be promoted
+    const result = await db.query(
+        `UPDATE users SET role = 'admin' WHERE lower(email) = lower($1) RETURNING id, email`,
+        [email.trim()]
+    );
+    if (result.rowCount === 0) {
+        console.error(`No account is registered with ${email}. Sign up first, then run this again.`);
+        return 1;
+    }
+    console.log(`${result.rows[0].email} (id ${result.rows[0].id}) is now an admin.`);
+    return 0;
+};
+
+promoteAdmin(process.argv[2])
+    .catch(err => {
+        console.error('Could not promote the account:', err.message);
+        return 1;
+    })
+    .then(async (code) => {
+        await db.end();
+        process.exit(code);
+    });
@@ -1,31 +1,37 @@
-import { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import './App.css';
 import InterviewDashboard from './components/InterviewDashboard';
 import Auth from './components/Auth';
+import VerifyEmail from './components/VerifyEmail';
+import ResetPassword from './components/ResetPassword';
+import InviteLanding from './components/InviteLanding';
 import InterviewInstructions from './components/InterviewInstructions';
-import type { User } from './services/authService';
 
 // Assessment Imports
 import DomainSelection from './assessment/DomainSelection';
 import QuestionPage from './assessment/QuestionPage';
+import ResultsPage from './assessment/ResultsPage';
+import QuestionBankAdmin from './admin/QuestionBankAdmin';
+import ReviewLookup from './review/ReviewLookup';
+import RequireRole from './components/RequireRole';
 import { LoadingProvider } from './context/LoadingContext';
 import { ThemeProvider } from './context/ThemeContext';
+import { AuthProvider } from './context/AuthContext';
+import { useAuth } from './context/useAuth';
+import { STAFF_ROLES } from './services/authService';
 import GlobalLoader from './components/GlobalLoader';
 import ThemeToggle from './components/ThemeToggle';
 
 function AppContent() {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [hasSeenInstructions, setHasSeenInstructions] = useState(false);
+  const { user, isRestoring, hasSeenInstructions, resumePath, invitation, markInstructionsSeen } = useAuth();
   const location = useLocation();
   const isAssessmentRoute = location.pathname.includes('/assessment');
+  // Only resume while the session is still stored; finishing or ending it clears the key
+  const activeResumePath = resumePath && localStorage.getItem('assessment_session_id') ? resumePath : null;
+  // Invited candidates go straight to their assigned assessment instead of choosing a domain
+  const invitationPath = invitation ? `/assessment/question/${invitation.domain}/1` : null;
 
-  useEffect(() => {
-    setLoading(false);
-  }, []);
-
-  if (loading) {
+  if (isRestoring) {
     return (
       <div className="min-h-screen w-full flex items-center justify-center bg-[var(--bg-primary)]">
         <div className="w-12 h-12 border-4 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin" />
@@ -43,28 +49,67 @@ function AppContent() {
           path="/"
           element={
             !user ? (
-              <Auth onSuccess={(userData) => setUser(userData)} />
+              <Auth />
+            ) : user.role === 'admin' ? (
+              <Navigate to="/admin/questions" replace />
+            ) : user.role === 'interviewer' ? (
+              <Navigate to="/review" replace />
             ) : !hasSeenInstructions ? (
-              <InterviewInstructions onComplete={() => setHasSeenInstructions(true)} />
+              <InterviewInstructions onComplete={markInstructionsSeen} />
+            ) : activeResumePath ? (
+              <Navigate to={activeResumePath} replace />
+            ) : invitationPath ? (
+              <Navigate to={invitationPath} replace />
             ) : (
               <Navigate to="/assessment/domain" replace />
             )
           }
         />
 
-        {/* Protected Assessment Flow */}
+        {/* Emailed Account Links */}
+        <Route path="/verify-email" element={<VerifyEmail />} />
+        <Route path="/reset-password" element={<ResetPassword />} />
+        <Route path="/invite/:token" element={<InviteLanding />} />
+
+        {/* Protected Assessment Flow (candidates only) */}
         <Route
           path="/"
-          element={user && hasSeenInstructions ? <InterviewDashboard user={user} /> : <Navigate to="/" replace />}
+          element={
+            <RequireRole roles={['candidate']}>
+              {hasSeenInstructions ? <InterviewDashboard /> : <Navigate to="/" replace />}
+            </RequireRole>
+          }
         >
           {/* Nested Assessment Module Routes */}
           <Route path="assessment">
             <Route index element={<Navigate to="domain" replace />} />
-            <Route path="domain" element={<DomainSelection />} />
+            <Route path="domain" element={invitationPath ? <Navigate to={invitationPath} replace /> : <DomainSelection />} />
             <Route path="question/:domain/:id" element={<QuestionPage />} />
           </Route>
         </Route>
 
+        {/* Results are shown outside the proctored dashboard */}
+        <Route
+          path="/assessment/results/:sessionId"
+          element={<RequireRole roles={['candidate']}><ResultsPage /></RequireRole>}
+        />
+
+        {/* Review Routes */}
+        <Route
+          path="/review"
+          element={<RequireRole roles={STAFF_ROLES}><ReviewLookup /></RequireRole>}
+        />
+        <Route
+          path="/review/:sessionId"
+          element={<RequireRole roles={STAFF_ROLES}><ResultsPage reviewMode /></RequireRole>}
+        />
+
+        {/* Admin Management Routes */}
+        <Route
+          path="/admin/questions"
+          element={<RequireRole roles={['admin']}><QuestionBankAdmin /></RequireRole>}
+        />
+
         {/* Catch-all redirect */}
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
@@ -77,7 +122,9 @@ function App() {
     <ThemeProvider>
       <LoadingProvider>
         <BrowserRouter>
-          <AppContent />
+          <AuthProvider>
+            <AppContent />
+          </AuthProvider>
         </BrowserRouter>
       </LoadingProvider>
     </ThemeProvider>
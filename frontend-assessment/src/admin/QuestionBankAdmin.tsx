@@ -0,0 +1,380 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Pencil, Archive, Upload, Download, X, Save, Trash2 } from 'lucide-react';
+import { questionBankService } from '../services/questionBankService';
+import type { QuestionBankItem, QuestionInput, QuestionFilters, QuestionFileFormat, QuestionImportReport } from '../types/questionBank';
+import type { QuestionKind } from '../types/session';
+import { useLoading } from '../context/LoadingContext';
+import QuestionImportPanel from './QuestionImportPanel';
+
+const DOMAIN_OPTIONS = [
+    { id: 'frontend', name: 'Frontend Development' },
+    { id: 'backend', name: 'Backend Systems' },
+    { id: 'fullstack', name: 'Full Stack Engineering' },
+    { id: 'uiux', name: 'UI/UX Design' },
+    { id: 'security', name: 'Cybersecurity' },
+    { id: 'devops', name: 'DevOps & Cloud' },
+];
+
+const KIND_OPTIONS: { id: QuestionKind; name: string }[] = [
+    { id: 'long_text', name: 'Long answer' },
+    { id: 'short_text', name: 'Short answer' },
+    { id: 'single_choice', name: 'Single choice' },
+    { id: 'multi_choice', name: 'Multiple choice' },
+    { id: 'code', name: 'Code' },
+];
+
+// Matches CODE_LANGUAGES in server/questionFormat.js
+const LANGUAGE_OPTIONS = ['javascript', 'typescript', 'python', 'java', 'sql'];
+
+const EMPTY_FORM: QuestionInput = {
+    text: '', domain: 'frontend', difficulty: 1, tags: [], rubric: '',
+    kind: 'long_text', options: [], correctOptionIds: [], acceptedAnswers: [], language: null, starterCode: '',
+    entryPoint: '', testCases: [],
+};
+
+const isChoiceKind = (kind: QuestionKind) => kind === 'single_choice' || kind === 'multi_choice';
+
+const nextOptionId = (form: QuestionInput) => {
+    const used = new Set(form.options.map(o => o.optionId));
+    let code = 97; // 'a'
+    while (used.has(String.fromCharCode(code))) code++;
+    return String.fromCharCode(code);
+};
+
+const inputClass = "w-full px-4 py-2.5 rounded-xl outline-none transition-all duration-300 text-sm border bg-[var(--bg-primary)] border-[var(--glass-border)] text-[var(--text-primary)] focus:border-indigo-500/50";
+
+/**
+ * Question Bank Admin - create, edit, import and retire assessment questions
+ */
+export default function QuestionBankAdmin() {
+    const { showLoader, hideLoader } = useLoading();
+    const [questions, setQuestions] = useState<QuestionBankItem[]>([]);
+    const [filters, setFilters] = useState<QuestionFilters>({ status: 'active' });
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<QuestionInput | null>(null);
+    const [tagInput, setTagInput] = useState('');
+    const [acceptedInput, setAcceptedInput] = useState('');
+    const [testCaseInput, setTestCaseInput] = useState('');
+    const [showImport, setShowImport] = useState(false);
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+
+    const loadQuestions = useCallback(async () => {
+        showLoader();
+        try {
+            setQuestions(await questionBankService.list(filters));
+            setError('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load questions');
+        } finally {
+            hideLoader();
+        }
+    }, [filters, showLoader, hideLoader]);
+
+    useEffect(() => {
+        loadQuestions();
+    }, [loadQuestions]);
+
+    const openEditor = (question?: QuestionBankItem) => {
+        setEditingId(question?.questionId ?? null);
+        setForm(question
+            ? {
+                text: question.text, domain: question.domain, difficulty: question.difficulty, tags: question.tags, rubric: question.rubric, status: question.status,
+                kind: question.kind, options: question.options, correctOptionIds: question.correctOptionIds, acceptedAnswers: question.acceptedAnswers,
+                language: question.language, starterCode: question.starterCode, entryPoint: question.entryPoint, testCases: question.testCases,
+            }
+            : EMPTY_FORM);
+        setTagInput(question?.tags.join(', ') ?? '');
+        setAcceptedInput(question?.acceptedAnswers.join('\n') ?? '');
+        setTestCaseInput(question?.testCases.length ? JSON.stringify(question.testCases, null, 2) : '');
+        setError('');
+    };
+
+    const closeEditor = () => {
+        setEditingId(null);
+        setForm(null);
+    };
+
+    const handleSave = async () => {
+        if (!form) return;
+        let testCases: QuestionInput['testCases'] = [];
+        if (form.kind === 'code' && testCaseInput.trim()) {
+            try {
+                testCases = JSON.parse(testCaseInput);
+            } catch {
+                setError('Test cases must be valid JSON.');
+                return;
+            }
+        }
+        const payload = {
+            ...form,
+            testCases,
+            tags: tagInput.split(',').map(t => t.trim()).filter(Boolean),
+            acceptedAnswers: acceptedInput.split('\n').map(a => a.trim()).filter(Boolean),
+        };
+        showLoader();
+        try {
+            if (editingId) {
+                await questionBankService.update(editingId, payload);
+                setNotice('Question updated.');
+            } else {
+                await questionBankService.create(payload);
+                setNotice('Question created.');
+            }
+            closeEditor();
+            await loadQuestions();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save question');
+        } finally {
+            hideLoader();
+        }
+    };
+
+    const changeKind = (kind: QuestionKind) => {
+        if (!form) return;
+        setForm({
+            ...form,
+            kind,
+            options: isChoiceKind(kind) ? form.options : [],
+            // A single-choice question keeps at most one correct option
+            correctOptionIds: isChoiceKind(kind) ? form.correctOptionIds.slice(0, kind === 'single_choice' ? 1 : undefined) : [],
+            language: kind === 'code' ? form.language ?? LANGUAGE_OPTIONS[0] : null,
+        });
+    };
+
+    const toggleCorrect = (optionId: string) => {
+        if (!form) return;
+        const isCorrect = form.correctOptionIds.includes(optionId);
+        const correctOptionIds = form.kind === 'single_choice'
+            ? [optionId]
+            : isCorrect ? form.correctOptionIds.filter(id => id !== optionId) : [...form.correctOptionIds, optionId];
+        setForm({ ...form, correctOptionIds });
+    };
+
+    const handleRetire = async (question: QuestionBankItem) => {
+        if (!window.confirm('Retire this question? New sessions will no longer draw it.')) return;
+        showLoader();
+        try {
+            await questionBankService.retire(question.questionId);
+            setNotice('Question retired.');
+            await loadQuestions();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to retire question');
+        } finally {
+            hideLoader();
+        }
+    };
+
+    const handleImported = async (report: QuestionImportReport) => {
+        setNotice(`Imported ${report.imported} question(s). Skipped ${report.duplicates} duplicate and ${report.invalid} invalid row(s).`);
+        setShowImport(false);
+        await loadQuestions();
+    };
+
+    const handleExport = async (format: QuestionFileFormat) => {
+        showLoader();
+        try {
+            const blob = await questionBankService.exportQuestions(format, filters);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `question-bank.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Export failed');
+        } finally {
+            hideLoader();
+        }
+    };
+
+    return (
+        <div className="min-h-screen w-full bg-[var(--bg-primary)] text-[var(--text-primary)] px-6 py-12">
+            <div className="max-w-6xl mx-auto">
+                <div className="flex items-center justify-between mb-10">
+                    <div>
+                        <h1 className="text-3xl font-semibold tracking-tight mb-2">Question Bank</h1>
+                        <p className="text-sm text-[var(--text-secondary)]">Manage the questions assessment sessions draw from.</p>
+                    </div>
+                    <div className="flex gap-3">
+                        {(['json', 'csv'] as QuestionFileFormat[]).map(format => (
+                            <button key={format} onClick={() => handleExport(format)} className="px-5 py-3 rounded-xl border border-[var(--glass-border)] text-[11px] font-semibold uppercase tracking-widest flex items-center gap-2 hover:border-indigo-500/30 transition-all">
+                                <Download size={14} /> {format}
+                            </button>
+                        ))}
+                        <button onClick={() => setShowImport(!showImport)} className="px-5 py-3 rounded-xl border border-[var(--glass-border)] text-[11px] font-semibold uppercase tracking-widest flex items-center gap-2 hover:border-indigo-500/30 transition-all">
+                            <Upload size={14} /> Import
+                        </button>
+                        <button onClick={() => openEditor()} className="px-5 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-[11px] font-semibold uppercase tracking-widest flex items-center gap-2 transition-all">
+                            <Plus size={14} /> New Question
+                        </button>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="mb-6 p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+                        <p className="text-red-500 text-[12px] font-medium">{error}</p>
+                    </div>
+                )}
+                {notice && (
+                    <div className="mb-6 p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/20 flex items-start justify-between gap-4">
+                        <p className="text-emerald-500 text-[12px] font-medium">{notice}</p>
+                        <button onClick={() => setNotice('')} className="text-emerald-500"><X size={14} /></button>
+                    </div>
+                )}
+
+                {showImport && <QuestionImportPanel onImported={handleImported} />}
+
+                {form && (
+                    <div className="mb-8 p-6 rounded-2xl bg-[var(--bg-secondary)] border border-[var(--glass-border)] space-y-4">
+                        <h2 className="text-lg font-semibold">{editingId ? 'Edit Question' : 'New Question'}</h2>
+                        <textarea
+                            value={form.text}
+                            onChange={(e) => setForm({ ...form, text: e.target.value })}
+                            placeholder="Question text"
+                            className={`${inputClass} h-28 resize-none`}
+                        />
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <select value={form.domain} onChange={(e) => setForm({ ...form, domain: e.target.value })} className={inputClass}>
+                                {DOMAIN_OPTIONS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                            </select>
+                            <select value={form.difficulty} onChange={(e) => setForm({ ...form, difficulty: Number(e.target.value) })} className={inputClass}>
+                                {[1, 2, 3].map(level => <option key={level} value={level}>Difficulty {level}</option>)}
+                            </select>
+                            <input value={tagInput} onChange={(e) => setTagInput(e.target.value)} placeholder="Tags (comma separated)" className={inputClass} />
+                        </div>
+                        <select value={form.kind} onChange={(e) => changeKind(e.target.value as QuestionKind)} className={inputClass}>
+                            {KIND_OPTIONS.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+                        </select>
+                        {isChoiceKind(form.kind) && (
+                            <div className="space-y-2">
+                                <p className="text-[11px] font-semibold uppercase tracking-widest text-[var(--text-secondary)]">Options (tick the correct {form.kind === 'single_choice' ? 'one' : 'ones'})</p>
+                                {form.options.map((option, index) => (
+                                    <div key={option.optionId} className="flex items-center gap-3">
+                                        <input
+                                            type={form.kind === 'single_choice' ? 'radio' : 'checkbox'}
+                                            checked={form.correctOptionIds.includes(option.optionId)}
+                                            onChange={() => toggleCorrect(option.optionId)}
+                                            className="accent-indigo-600"
+                                        />
+                                        <input
+                                            value={option.text}
+                                            onChange={(e) => setForm({ ...form, options: form.options.map((o, i) => i === index ? { ...o, text: e.target.value } : o) })}
+                                            placeholder={`Option ${option.optionId.toUpperCase()}`}
+                                            className={inputClass}
+                                        />
+                                        <button
+                                            onClick={() => setForm({ ...form, options: form.options.filter((_, i) => i !== index), correctOptionIds: form.correctOptionIds.filter(id => id !== option.optionId) })}
+                                            title="Remove option"
+                                            className="p-2 rounded-lg hover:bg-white/5 text-[var(--text-secondary)] hover:text-red-400 transition-all"
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => setForm({ ...form, options: [...form.options, { optionId: nextOptionId(form), text: '' }] })}
+                                    className="text-[11px] font-semibold uppercase tracking-widest text-indigo-400 flex items-center gap-1.5"
+                                >
+                                    <Plus size={12} /> Add option
+                                </button>
+                            </div>
+                        )}
+                        {form.kind === 'short_text' && (
+                            <textarea
+                                value={acceptedInput}
+                                onChange={(e) => setAcceptedInput(e.target.value)}
+                                placeholder="Accepted answers, one per line (leave empty to have the evaluator score it)"
+                                className={`${inputClass} h-20 resize-none`}
+                            />
+                        )}
+                        {form.kind === 'code' && (
+                            <>
+                                <select value={form.language ?? ''} onChange={(e) => setForm({ ...form, language: e.target.value })} className={inputClass}>
+                                    {LANGUAGE_OPTIONS.map(language => <option key={language} value={language}>{language}</option>)}
+                                </select>
+                                <textarea
+                                    value={form.starterCode}
+                                    onChange={(e) => setForm({ ...form, starterCode: e.target.value })}
+                                    placeholder="Starter code shown to the candidate"
+                                    spellCheck={false}
+                                    className={`${inputClass} h-28 resize-none font-mono`}
+                                />
+                                <input
+                                    value={form.entryPoint}
+                                    onChange={(e) => setForm({ ...form, entryPoint: e.target.value })}
+                                    placeholder="Function the test cases call (e.g. twoSum)"
+                                    className={`${inputClass} font-mono`}
+                                />
+                                <textarea
+                                    value={testCaseInput}
+                                    onChange={(e) => setTestCaseInput(e.target.value)}
+                                    placeholder={'Test cases (JSON), e.g. [{ "input": [[2, 7, 11], 9], "expected": [0, 1] }, { "input": [[3, 3], 6], "expected": [0, 1], "hidden": true }]'}
+                                    spellCheck={false}
+                                    className={`${inputClass} h-32 resize-none font-mono`}
+                                />
+                            </>
+                        )}
+                        <textarea
+                            value={form.rubric}
+                            onChange={(e) => setForm({ ...form, rubric: e.target.value })}
+                            placeholder="Expected-answer rubric for evaluators"
+                            className={`${inputClass} h-24 resize-none`}
+                        />
+                        <div className="flex justify-end gap-3">
+                            <button onClick={closeEditor} className="px-5 py-2.5 rounded-xl text-[11px] font-semibold uppercase tracking-widest text-[var(--text-secondary)]">Cancel</button>
+                            <button onClick={handleSave} className="px-5 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-[11px] font-semibold uppercase tracking-widest flex items-center gap-2 transition-all">
+                                <Save size={14} /> Save
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                <div className="mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <select value={filters.domain ?? ''} onChange={(e) => setFilters({ ...filters, domain: e.target.value || undefined })} className={inputClass}>
+                        <option value="">All domains</option>
+                        {DOMAIN_OPTIONS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                    </select>
+                    <select value={filters.difficulty ?? ''} onChange={(e) => setFilters({ ...filters, difficulty: e.target.value ? Number(e.target.value) : undefined })} className={inputClass}>
+                        <option value="">All difficulties</option>
+                        {[1, 2, 3].map(level => <option key={level} value={level}>Difficulty {level}</option>)}
+                    </select>
+                    <select value={filters.status ?? ''} onChange={(e) => setFilters({ ...filters, status: (e.target.value || undefined) as QuestionFilters['status'] })} className={inputClass}>
+                        <option value="">Any status</option>
+                        <option value="active">Active</option>
+                        <option value="retired">Retired</option>
+                    </select>
+                    <input value={filters.search ?? ''} onChange={(e) => setFilters({ ...filters, search: e.target.value || undefined })} placeholder="Search text" className={inputClass} />
+                </div>
+
+                <div className="rounded-2xl border border-[var(--glass-border)] overflow-hidden">
+                    {questions.length === 0 ? (
+                        <p className="p-10 text-center text-sm text-[var(--text-secondary)]">No questions match these filters.</p>
+                    ) : questions.map(question => (
+                        <div key={question.questionId} className="p-5 border-b border-[var(--glass-border)] last:border-b-0 bg-[var(--bg-secondary)] flex items-start justify-between gap-6">
+                            <div className="flex-1">
+                                <p className={`text-[15px] leading-relaxed mb-2 ${question.status === 'retired' ? 'line-through text-[var(--text-muted)]' : ''}`}>{question.text}</p>
+                                <div className="flex flex-wrap gap-2 text-[10px] font-semibold uppercase tracking-widest text-[var(--text-secondary)]">
+                                    <span className="px-2 py-1 rounded-md bg-indigo-500/10 text-indigo-400">{question.domain}</span>
+                                    <span className="px-2 py-1 rounded-md bg-white/5">Difficulty {question.difficulty}</span>
+                                    <span className="px-2 py-1 rounded-md bg-white/5">{KIND_OPTIONS.find(k => k.id === question.kind)?.name ?? question.kind}</span>
+                                    {question.tags.map(tag => <span key={tag} className="px-2 py-1 rounded-md bg-white/5">#{tag}</span>)}
+                                </div>
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => openEditor(question)} title="Edit" className="p-2 rounded-lg hover:bg-white/5 text-[var(--text-secondary)] hover:text-indigo-400 transition-all">
+                                    <Pencil size={16} />
+                                </button>
+                                {question.status === 'active' && (
+                                    <button onClick={() => handleRetire(question)} title="Retire" className="p-2 rounded-lg hover:bg-white/5 text-[var(--text-secondary)] hover:text-red-400 transition-all">
+                                        <Archive size={16} />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { FileUp, CheckCircle2, AlertTriangle, Copy } from 'lucide-react';
+import { questionBankService } from '../services/questionBankService';
+import type { QuestionFileFormat, QuestionImportReport, ImportRowStatus } from '../types/questionBank';
+import { useLoading } from '../context/LoadingContext';
+
+interface QuestionImportPanelProps {
+    onImported: (report: QuestionImportReport) => void;
+}
+
+const PLACEHOLDERS: Record<QuestionFileFormat, string> = {
+    json: '{ "questions": [{ "text": "...", "domain": "backend", "difficulty": 2, "kind": "single_choice", "options": ["GET", "POST"], "correctOptionIds": ["a"] }] }',
+    csv: 'text,domain,difficulty,rubric,tags,kind,options,correct_options\n"Which verb is idempotent?",backend,1,,http,single_choice,GET|POST,a',
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+    valid: 'text-emerald-500',
+    duplicate: 'text-amber-500',
+    invalid: 'text-red-500',
+};
+
+/**
+ * Import panel - dry-run preview with per-row validation before committing a JSON/CSV file
+ */
+export default function QuestionImportPanel({ onImported }: QuestionImportPanelProps) {
+    const { showLoader, hideLoader } = useLoading();
+    const [format, setFormat] = useState<QuestionFileFormat>('json');
+    const [content, setContent] = useState('');
+    const [preview, setPreview] = useState<QuestionImportReport | null>(null);
+    const [error, setError] = useState('');
+
+    const resetPreview = () => {
+        setPreview(null);
+        setError('');
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setFormat(file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json');
+        setContent(await file.text());
+        resetPreview();
+    };
+
+    const runImport = async (dryRun: boolean) => {
+        showLoader();
+        setError('');
+        try {
+            const report = await questionBankService.importQuestions(format, content, dryRun);
+            if (dryRun) {
+                setPreview(report);
+            } else {
+                setContent('');
+                setPreview(null);
+                onImported(report);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Import failed');
+        } finally {
+            hideLoader();
+        }
+    };
+
+    return (
+        <div className="mb-8 p-6 rounded-2xl bg-[var(--bg-secondary)] border border-[var(--glass-border)]">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex gap-2">
+                    {(['json', 'csv'] as QuestionFileFormat[]).map(f => (
+                        <button
+                            key={f}
+                            onClick={() => { setFormat(f); resetPreview(); }}
+                            className={`px-4 py-2 rounded-lg text-[11px] font-semibold uppercase tracking-widest transition-all ${format === f ? 'bg-indigo-600 text-white' : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}
+                        >
+                            {f}
+                        </button>
+                    ))}
+                </div>
+                <label className="px-4 py-2 rounded-lg border border-[var(--glass-border)] text-[11px] font-semibold uppercase tracking-widest flex items-center gap-2 cursor-pointer hover:border-indigo-500/30 transition-all">
+                    <FileUp size={14} /> Choose File
+                    <input type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+                </label>
+            </div>
+
+            <p className="text-sm text-[var(--text-secondary)] mb-4">
+                {format === 'csv'
+                    ? <>CSV columns: <code>text, domain, difficulty, rubric, tags, status, kind, options, correct_options, accepted_answers, language, starter_code, entry_point, test_cases</code>. Separate list values with <code>|</code> and write a literal <code>|</code> or <code>\</code> inside a value as <code>\|</code> or <code>\\</code>; correct options are referenced by letter (<code>a|c</code>); <code>test_cases</code> holds a JSON array.</>
+                    : <>JSON document with a <code>questions</code> array (the same shape the export produces).</>}
+            </p>
+
+            <textarea
+                value={content}
+                onChange={(e) => { setContent(e.target.value); resetPreview(); }}
+                placeholder={PLACEHOLDERS[format]}
+                className="w-full h-40 px-4 py-2.5 rounded-xl outline-none text-sm border bg-[var(--bg-primary)] border-[var(--glass-border)] text-[var(--text-primary)] focus:border-indigo-500/50 font-mono resize-none"
+            />
+
+            {error && <p className="mt-4 text-red-500 text-[12px] font-medium">{error}</p>}
+
+            {preview && (
+                <div className="mt-6">
+                    <div className="flex flex-wrap gap-4 mb-4 text-[11px] font-semibold uppercase tracking-widest">
+                        <span className="flex items-center gap-1.5 text-emerald-500"><CheckCircle2 size={14} /> {preview.valid} ready</span>
+                        <span className="flex items-center gap-1.5 text-amber-500"><Copy size={14} /> {preview.duplicates} duplicate</span>
+                        <span className="flex items-center gap-1.5 text-red-500"><AlertTriangle size={14} /> {preview.invalid} invalid</span>
+                    </div>
+                    <div className="max-h-72 overflow-y-auto rounded-xl border border-[var(--glass-border)]">
+                        {preview.rows.map(row => (
+                            <div key={row.row} className="px-4 py-3 border-b border-[var(--glass-border)] last:border-b-0 flex gap-4 text-[13px]">
+                                <span className="w-14 shrink-0 text-[var(--text-muted)]">Row {row.row}</span>
+                                <span className={`w-20 shrink-0 font-semibold uppercase text-[10px] tracking-widest pt-0.5 ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                                <div className="flex-1 min-w-0">
+                                    <p className="truncate">{row.question.text || <em className="text-[var(--text-muted)]">(no text)</em>}</p>
+                                    {row.errors && <p className="text-red-500 text-[12px]">{Object.values(row.errors).join(' ')}</p>}
+                                    {row.duplicateOf && <p className="text-amber-500 text-[12px]">Already exists in {row.duplicateOf}.</p>}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="mt-4 flex justify-end gap-3">
+                <button onClick={() => runImport(true)} disabled={!content.trim()} className="px-5 py-2.5 rounded-xl border border-[var(--glass-border)] disabled:opacity-40 text-[11px] font-semibold uppercase tracking-widest transition-all">
+                    Preview
+                </button>
+                <button onClick={() => runImport(false)} disabled={!preview || preview.valid === 0} className="px-5 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white text-[11px] font-semibold uppercase tracking-widest transition-all">
+                    Import {preview ? preview.valid : ''} Question{preview?.valid === 1 ? '' : 's'}
+                </button>
+            </div>
+        </div>
+    );
+}
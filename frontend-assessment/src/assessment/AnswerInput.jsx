@@ -0,0 +1,84 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import CodeEditor from './CodeEditor';
+
+const fieldClass = "w-full bg-[var(--bg-primary)]/50 text-[var(--text-primary)] border border-[var(--glass-border)] rounded-xl py-4 px-5 text-[15px] font-normal placeholder:text-[var(--text-muted)] outline-none focus:border-indigo-500/30 transition-all resize-none leading-relaxed";
+
+const ChoiceInput = ({ question, answer, onChange }) => {
+    const isMulti = question.kind === 'multi_choice';
+    const selected = isMulti ? answer.selectedOptionIds : [answer.selectedOptionId];
+
+    const toggle = (optionId) => {
+        if (!isMulti) {
+            onChange({ kind: 'single_choice', selectedOptionId: optionId });
+            return;
+        }
+        const next = selected.includes(optionId)
+            ? selected.filter(id => id !== optionId)
+            : [...selected, optionId];
+        onChange({ kind: 'multi_choice', selectedOptionIds: next });
+    };
+
+    return (
+        <div className="space-y-3" role={isMulti ? 'group' : 'radiogroup'}>
+            {isMulti && <p className="text-[11px] font-semibold uppercase tracking-widest text-[var(--text-secondary)]">Select all that apply</p>}
+            {question.options.map(option => {
+                const isSelected = selected.includes(option.optionId);
+                return (
+                    <button
+                        key={option.optionId}
+                        type="button"
+                        role={isMulti ? 'checkbox' : 'radio'}
+                        aria-checked={isSelected}
+                        onClick={() => toggle(option.optionId)}
+                        className={`w-full flex items-center gap-4 py-3.5 px-5 rounded-xl border text-left text-[15px] transition-all ${isSelected ? 'border-indigo-500/60 bg-indigo-500/10 text-[var(--text-primary)]' : 'border-[var(--glass-border)] bg-[var(--bg-primary)]/50 text-[var(--text-secondary)] hover:border-indigo-500/30'}`}
+                    >
+                        <span className={`w-5 h-5 shrink-0 flex items-center justify-center border ${isMulti ? 'rounded-md' : 'rounded-full'} ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-[var(--glass-border)]'}`}>
+                            {isSelected && <Check size={12} />}
+                        </span>
+                        {option.text}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+const ShortTextInput = ({ answer, onChange }) => (
+    <input
+        value={answer.text}
+        onChange={(e) => onChange({ kind: 'short_text', text: e.target.value })}
+        placeholder="Type a short answer..."
+        className={fieldClass}
+    />
+);
+
+const LongTextInput = ({ answer, onChange }) => (
+    <textarea
+        value={answer.text}
+        onChange={(e) => onChange({ kind: 'long_text', text: e.target.value })}
+        placeholder="Type your response here..."
+        className={`${fieldClass} h-44`}
+    />
+);
+
+/**
+ * Renders the answer control for the question's kind. `answer` always matches `question.kind`.
+ */
+const AnswerInput = ({ question, answer, onChange }) => {
+    if (!answer || answer.kind !== question.kind) return null;
+
+    switch (question.kind) {
+        case 'single_choice':
+        case 'multi_choice':
+            return <ChoiceInput question={question} answer={answer} onChange={onChange} />;
+        case 'code':
+            return <CodeEditor question={question} answer={answer} onChange={onChange} />;
+        case 'short_text':
+            return <ShortTextInput answer={answer} onChange={onChange} />;
+        default:
+            return <LongTextInput answer={answer} onChange={onChange} />;
+    }
+};
+
+export default AnswerInput;
@@ -1,15 +1,20 @@
 import React from 'react';
 import { useLocation, Link } from 'react-router-dom';
 import Timer from './Timer';
-import { ShieldCheck } from 'lucide-react';
+import { ShieldCheck, WifiOff } from 'lucide-react';
 import ThemeToggle from '../components/ThemeToggle';
 
 interface AssessmentLayoutProps {
     children: React.ReactNode;
-    remainingTime?: number | null;
+    sessionId?: string | null;
+    assessmentDeadline?: number | null; // Epoch ms
+    questionDeadline?: number | null; // Epoch ms; null when questions are uncapped
+    timerWarningThresholds?: number[]; // Seconds remaining at which the timers warn
+    isOffline?: boolean;
+    pendingSubmissions?: number; // Answers waiting in the offline outbox
 }
 
-const AssessmentLayout: React.FC<AssessmentLayoutProps> = ({ children, remainingTime }) => {
+const AssessmentLayout: React.FC<AssessmentLayoutProps> = ({ children, sessionId, assessmentDeadline, questionDeadline, timerWarningThresholds, isOffline = false, pendingSubmissions = 0 }) => {
     const location = useLocation();
     const isQuestionPage = location.pathname.includes('/assessment/question');
 
@@ -24,11 +29,22 @@ const AssessmentLayout: React.FC<AssessmentLayoutProps> = ({ children, remaining
                 </Link>
 
                 <div className="flex items-center gap-4">
-                    {isQuestionPage && <Timer isActive={isQuestionPage} remainingTime={remainingTime} />}
+                    {isQuestionPage && <Timer isActive={isQuestionPage} isPaused={isOffline} sessionId={sessionId} label="Total" deadline={assessmentDeadline} warningThresholds={timerWarningThresholds} />}
+                    {isQuestionPage && questionDeadline && <Timer isActive={isQuestionPage} isPaused={isOffline} sessionId={sessionId} label="Question" deadline={questionDeadline} warningThresholds={timerWarningThresholds} />}
                     <ThemeToggle className="w-10 h-10 rounded-full bg-white/5 backdrop-blur-xl border border-white/10 hover:border-indigo-500/30 transition-all duration-300 group shadow-2xl active:scale-90 flex items-center justify-center" />
                 </div>
             </header>
 
+            {/* Connectivity Banner */}
+            {(isOffline || pendingSubmissions > 0) && (
+                <div role="status" className="z-[55] flex items-center justify-center gap-2 px-6 py-2 bg-amber-500/10 border-b border-amber-500/20 text-amber-600 text-[12px] font-medium">
+                    <WifiOff size={14} />
+                    {isOffline
+                        ? `Connection lost. ${pendingSubmissions > 0 ? `${pendingSubmissions} answer${pendingSubmissions === 1 ? '' : 's'} saved and` : 'Answers will be'} sent automatically when you are back online.`
+                        : `Reconnected. Sending ${pendingSubmissions} saved answer${pendingSubmissions === 1 ? '' : 's'}...`}
+                </div>
+            )}
+
             {/* Main Content Area */}
             <main className={`flex-1 flex flex-col relative ${location.pathname.includes('/assessment/domain') ? 'overflow-y-auto' : 'overflow-hidden'}`}>
                 {/* Global Background Decorations */}
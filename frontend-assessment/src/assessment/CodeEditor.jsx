@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { Play } from 'lucide-react';
+import { highlight } from './codeHighlight';
+import { runTestCases, RUNNABLE_LANGUAGES } from './codeRunner';
+import TestResultList from './TestResultList';
+
+// Matches CODE_LANGUAGES in server/questionFormat.js
+const LANGUAGES = ['javascript', 'typescript', 'python', 'java', 'sql'];
+
+const TOKEN_CLASSES = {
+    keyword: 'text-indigo-400',
+    string: 'text-emerald-400',
+    comment: 'text-[var(--text-muted)] italic',
+    number: 'text-amber-400',
+    plain: '',
+};
+
+const INDENT = '    ';
+
+/**
+ * Code answer editor: highlighted source, language selector and a local "Run tests" action
+ * over the question's visible test cases. The latest run travels with the submitted answer.
+ */
+const CodeEditor = ({ question, answer, onChange }) => {
+    const highlightRef = useRef(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const testCases = question.testCases || [];
+    const canRun = Boolean(question.entryPoint) && testCases.length > 0 && RUNNABLE_LANGUAGES.includes(answer.language);
+
+    // Editing invalidates the previous run
+    const update = (changes) => onChange({ ...answer, ...changes, testResults: undefined });
+
+    const handleKeyDown = (e) => {
+        if (e.key !== 'Tab') return;
+        e.preventDefault();
+        const { selectionStart, selectionEnd, value } = e.target;
+        update({ code: value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd) });
+        requestAnimationFrame(() => {
+            e.target.selectionStart = e.target.selectionEnd = selectionStart + INDENT.length;
+        });
+    };
+
+    const syncScroll = (e) => {
+        if (!highlightRef.current) return;
+        highlightRef.current.scrollTop = e.target.scrollTop;
+        highlightRef.current.scrollLeft = e.target.scrollLeft;
+    };
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        try {
+            const testResults = await runTestCases(answer.code, question.entryPoint, testCases);
+            onChange({ ...answer, testResults });
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const editorText = "py-4 px-5 text-[13px] font-mono leading-relaxed whitespace-pre";
+
+    return (
+        <div className="space-y-4">
+            <div className="rounded-xl border border-[var(--glass-border)] overflow-hidden">
+                <div className="px-4 py-2 flex items-center justify-between border-b border-[var(--glass-border)]">
+                    <select
+                        value={answer.language}
+                        onChange={(e) => update({ language: e.target.value })}
+                        className="bg-transparent text-[10px] font-semibold uppercase tracking-widest text-[var(--text-secondary)] outline-none"
+                    >
+                        {LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                    </select>
+                    {testCases.length > 0 && (
+                        <button
+                            type="button"
+                            onClick={handleRun}
+                            disabled={!canRun || isRunning}
+                            title={canRun ? 'Run visible test cases' : 'Local test runs support JavaScript only'}
+                            className="px-3 py-1.5 rounded-lg bg-emerald-600/90 hover:bg-emerald-500 disabled:opacity-40 text-white text-[10px] font-semibold uppercase tracking-widest flex items-center gap-1.5 transition-all"
+                        >
+                            <Play size={12} /> {isRunning ? 'Running...' : 'Run Tests'}
+                        </button>
+                    )}
+                </div>
+                <div className="relative h-64 bg-[var(--bg-primary)]/50">
+                    <pre ref={highlightRef} aria-hidden="true" className={`absolute inset-0 m-0 overflow-hidden pointer-events-none text-[var(--text-primary)] ${editorText}`}>
+                        {highlight(answer.code, answer.language).map((token, i) => (
+                            <span key={i} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                        ))}
+                        {'\n'}
+                    </pre>
+                    <textarea
+                        value={answer.code}
+                        onChange={(e) => update({ code: e.target.value })}
+                        onKeyDown={handleKeyDown}
+                        onScroll={syncScroll}
+                        spellCheck={false}
+                        autoCapitalize="off"
+                        autoCorrect="off"
+                        placeholder="// Write your solution here"
+                        className={`absolute inset-0 w-full h-full bg-transparent text-transparent caret-[var(--text-primary)] placeholder:text-[var(--text-muted)] outline-none resize-none overflow-auto ${editorText}`}
+                    />
+                </div>
+            </div>
+
+            {question.entryPoint && testCases.length > 0 && (
+                <p className="text-[11px] text-[var(--text-secondary)]">
+                    Tests call <code className="font-mono">{question.entryPoint}(...)</code>. Hidden test cases also run when you submit.
+                </p>
+            )}
+            <TestResultList results={answer.testResults} testCases={testCases} />
+        </div>
+    );
+};
+
+export default CodeEditor;
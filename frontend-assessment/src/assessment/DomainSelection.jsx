@@ -1,7 +1,9 @@
-import React from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useOutletContext } from 'react-router-dom';
 import { Code2, Globe, Database, Cpu, Layout, ShieldCheck, ChevronRight } from 'lucide-react';
 import { useLoading } from '../context/LoadingContext';
+import { useAuth } from '../context/useAuth';
+import { sessionService } from '../services/sessionService';
 
 const domains = [
     { id: 'frontend', name: 'Frontend Development', icon: <Globe size={24} />, description: 'React, CSS, and modern web architecture.', color: 'from-blue-500/20 to-indigo-500/20', glow: 'shadow-blue-500/20' },
@@ -12,13 +14,37 @@ const domains = [
     { id: 'devops', name: 'DevOps & Cloud', icon: <Code2 size={24} />, description: 'Deployment and infrastructure.', color: 'from-cyan-500/20 to-sky-500/20', glow: 'shadow-cyan-500/20' },
 ];
 
+const describeAttempts = (attempts) => {
+    if (attempts.attemptsRemaining === 0) return 'No attempts remaining';
+    if (attempts.retryAfterSeconds > 0) {
+        return `Retake after ${new Date(Date.now() + attempts.retryAfterSeconds * 1000).toLocaleString()}`;
+    }
+    return `${attempts.attemptsRemaining} of ${attempts.maxAttempts} attempts remaining`;
+};
+
 const DomainSelection = () => {
     const navigate = useNavigate();
     const { showLoader, hideLoader } = useLoading();
+    const { endSession } = useOutletContext();
+    const { user } = useAuth();
+    const [attemptsByDomain, setAttemptsByDomain] = useState({});
+
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        sessionService.getAttempts(String(user.id))
+            .then(list => {
+                if (!cancelled) setAttemptsByDomain(Object.fromEntries(list.map(attempts => [attempts.domain, attempts])));
+            })
+            .catch(err => console.error('[DomainSelection] Could not load attempts:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [user]);
 
     const handleDomainSelect = (domainId) => {
         showLoader();
-        localStorage.removeItem('assessment_session_id'); // Clear stale session Before starting new one
+        endSession(); // Clear stale session; the dashboard starts a new one scoped to domainId
         setTimeout(() => {
             hideLoader();
             navigate(`/assessment/question/${domainId}/1`);
@@ -43,30 +69,45 @@ const DomainSelection = () => {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 w-full max-w-6xl relative z-10 animate-fade-in [animation-delay:100ms]">
-                {domains.map((domain) => (
-                    <button
-                        key={domain.id}
-                        onClick={() => handleDomainSelect(domain.id)}
-                        className={`group relative text-left p-10 rounded-[2.5rem] bg-[var(--bg-secondary)] border border-[var(--glass-border)] hover:border-indigo-500/30 transition-all duration-500 flex flex-col hover:-translate-y-2 hover:shadow-[0_40px_80px_-15px_rgba(0,0,0,0.3)] active:scale-95 overflow-hidden`}
-                    >
-                        {/* Decorative background gradient glow */}
-                        <div className={`absolute -top-10 -right-10 w-32 h-32 bg-gradient-to-br ${domain.color} blur-3xl opacity-0 group-hover:opacity-100 transition-opacity duration-700`} />
-                        <div className={`w-14 h-14 rounded-[1.25rem] bg-white/5 flex items-center justify-center text-indigo-400 mb-8 border border-white/5 group-hover:bg-indigo-500 group-hover:text-white transition-all duration-500 shadow-xl ${domain.glow}`}>
-                            {React.cloneElement(domain.icon, { size: 24, strokeWidth: 1.5 })}
-                        </div>
+                {domains.map((domain) => {
+                    const attempts = attemptsByDomain[domain.id];
+                    const isBlocked = attempts ? !attempts.canStart : false;
+                    return (
+                        <button
+                            key={domain.id}
+                            onClick={() => handleDomainSelect(domain.id)}
+                            disabled={isBlocked}
+                            className={`group relative text-left p-10 rounded-[2.5rem] bg-[var(--bg-secondary)] border border-[var(--glass-border)] transition-all duration-500 flex flex-col overflow-hidden ${
+                                isBlocked ? 'opacity-50 cursor-not-allowed' : 'hover:border-indigo-500/30 hover:-translate-y-2 hover:shadow-[0_40px_80px_-15px_rgba(0,0,0,0.3)] active:scale-95'
+                            }`}
+                        >
+                            {/* Decorative background gradient glow */}
+                            <div className={`absolute -top-10 -right-10 w-32 h-32 bg-gradient-to-br ${domain.color} blur-3xl opacity-0 group-hover:opacity-100 transition-opacity duration-700`} />
+                            <div className={`w-14 h-14 rounded-[1.25rem] bg-white/5 flex items-center justify-center text-indigo-400 mb-8 border border-white/5 group-hover:bg-indigo-500 group-hover:text-white transition-all duration-500 shadow-xl ${domain.glow}`}>
+                                {React.cloneElement(domain.icon, { size: 24, strokeWidth: 1.5 })}
+                            </div>
+
+                            <h3 className="text-[19px] font-medium text-[var(--text-primary)] mb-3 tracking-tight transition-colors">
+                                {domain.name}
+                            </h3>
+                            <p className="text-[var(--text-secondary)] text-[14px] leading-relaxed font-normal transition-opacity">
+                                {domain.description}
+                            </p>
 
-                        <h3 className="text-[19px] font-medium text-[var(--text-primary)] mb-3 tracking-tight transition-colors">
-                            {domain.name}
-                        </h3>
-                        <p className="text-[var(--text-secondary)] text-[14px] leading-relaxed font-normal transition-opacity">
-                            {domain.description}
-                        </p>
+                            {attempts && (
+                                <p className={`mt-6 text-[12px] font-medium ${isBlocked ? 'text-amber-500' : 'text-[var(--text-secondary)]'}`}>
+                                    {describeAttempts(attempts)}
+                                </p>
+                            )}
 
-                        <div className="mt-10 flex items-center gap-2 text-[11px] font-medium text-indigo-400 opacity-60 group-hover:opacity-100 uppercase tracking-[0.2em] transition-all">
-                            Initialize Module <ChevronRight size={12} strokeWidth={2.5} className="group-hover:translate-x-1 transition-transform" />
-                        </div>
-                    </button>
-                ))}
+                            {!isBlocked && (
+                                <div className="mt-10 flex items-center gap-2 text-[11px] font-medium text-indigo-400 opacity-60 group-hover:opacity-100 uppercase tracking-[0.2em] transition-all">
+                                    Initialize Module <ChevronRight size={12} strokeWidth={2.5} className="group-hover:translate-x-1 transition-transform" />
+                                </div>
+                            )}
+                        </button>
+                    );
+                })}
             </div>
 
 
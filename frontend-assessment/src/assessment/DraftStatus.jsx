@@ -0,0 +1,32 @@
+import React, { useState, useEffect } from 'react';
+import { CloudCheck } from 'lucide-react';
+
+const describe = (seconds) => {
+    if (seconds < 5) return 'just now';
+    if (seconds < 60) return `${seconds} seconds ago`;
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+};
+
+/**
+ * "Draft saved N seconds ago" indicator for the autosaved answer
+ */
+const DraftStatus = ({ lastSavedAt }) => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    if (!lastSavedAt) return null;
+
+    return (
+        <p className="mt-3 flex items-center gap-1.5 text-[11px] text-[var(--text-muted)]">
+            <CloudCheck size={12} />
+            Draft saved {describe(Math.max(0, Math.floor((now - lastSavedAt) / 1000)))}
+        </p>
+    );
+};
+
+export default DraftStatus;
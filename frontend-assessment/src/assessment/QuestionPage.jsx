@@ -1,64 +1,92 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, useOutletContext } from 'react-router-dom';
 import { ChevronRight, SkipForward, Send, ShieldCheck } from 'lucide-react';
 import SubmissionModal from './SubmissionModal';
+import AnswerInput from './AnswerInput';
+import DraftStatus from './DraftStatus';
+import { isAnswerReady } from './answers';
+import { useAnswerDraft } from '../hooks/useAnswerDraft';
 import { useSession } from '../hooks/useSession';
 
 const QuestionPage = () => {
     const { domain } = useParams();
     const navigate = useNavigate();
     const { 
-        user, 
+        sessionId,
         currentQuestion, 
         currentQuestionIndex, 
+        assessmentDeadline,
+        questionDeadline,
         fetchQuestion, 
         submitAnswer, 
         endSession, 
         isLoading, 
         error,
-        isCompleted 
+        isCompleted,
+        pendingSubmissions = []
     } = useOutletContext();
-    const [answer, setAnswer] = useState('');
+    const { answer, setAnswer, lastSavedAt, discardDraft } = useAnswerDraft(sessionId, currentQuestion);
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const autoSubmitRef = useRef(null);
+    const autoSubmittedRef = useRef(null); // questionId already auto-submitted
 
     const totalQuestions = 5; // Matches backend session_manager.TOTAL_QUESTIONS
 
-    const handleNext = async () => {
-        if (answer.trim()) {
-            try {
-                const response = await submitAnswer(answer);
-                setAnswer('');
-                
-                // If backend indicates session is completed or next question is fetchable
-                if (response?.status === 'completed' || response?.status === 'terminated') {
-                    setIsModalOpen(true);
-                }
-            } catch (err) {
-                 console.error('Failed to submit answer:', err);
+    // Submits an answer (null = skip) for the current question and drops its draft once accepted
+    const submitCurrent = async (payload) => {
+        const submittedQuestionId = currentQuestion?.questionId;
+        try {
+            const response = await submitAnswer(payload);
+            if (response && submittedQuestionId) discardDraft(submittedQuestionId);
+
+            // If backend indicates session is completed or next question is fetchable
+            if (response?.status === 'completed' || response?.status === 'terminated') {
+                setIsModalOpen(true);
             }
-        } else {
-             alert('Please type a response before proceeding.');
+        } catch (err) {
+             console.error('Failed to submit answer:', err);
         }
     };
 
-    const handleSkip = async () => {
-         try {
-             const response = await submitAnswer("[Candidate skipped question]");
-             setAnswer('');
-             if (response?.status === 'completed' || response?.status === 'terminated') {
-                 setIsModalOpen(true);
-             }
-         } catch (err) {
-              console.error(err);
-         }
+    const handleNext = () => {
+        if (isAnswerReady(answer)) {
+            submitCurrent(answer);
+        } else {
+             alert('Please answer the question before proceeding.');
+        }
     };
 
+    const handleSkip = () => submitCurrent(null);
+
+    // On expiry of either budget the current draft is submitted as-is; an unfinished draft counts as a skip
+    useEffect(() => {
+        autoSubmitRef.current = () => {
+            const questionId = currentQuestion?.questionId;
+            if (!questionId || autoSubmittedRef.current === questionId) return;
+            autoSubmittedRef.current = questionId;
+            submitCurrent(isAnswerReady(answer) ? answer : null);
+        };
+    });
+
+    const expiresAt = questionDeadline && assessmentDeadline
+        ? Math.min(questionDeadline, assessmentDeadline)
+        : questionDeadline || assessmentDeadline;
+
+    useEffect(() => {
+        if (!expiresAt || !currentQuestion?.questionId || isCompleted) return;
+        const timeout = setTimeout(() => autoSubmitRef.current?.(), Math.max(0, expiresAt - Date.now()));
+        return () => clearTimeout(timeout);
+    }, [expiresAt, currentQuestion?.questionId, isCompleted]);
+
     const handleFinish = () => {
+        const finishedSessionId = sessionId;
         endSession();
-        navigate('/');
+        navigate(finishedSessionId ? `/assessment/results/${finishedSessionId}` : '/');
     };
 
     const questionText = currentQuestion?.text || 'Loading next question allocation...';
+    // Submitted while offline; the server has not moved on yet, so neither can the candidate
+    const isQueued = pendingSubmissions.some(item => item.questionId === currentQuestion?.questionId);
 
     if (isCompleted) {
          return (
@@ -122,19 +150,22 @@ const QuestionPage = () => {
                     </div>
 
                     <div className="relative">
-                        <textarea
-                            value={answer}
-                            onChange={(e) => setAnswer(e.target.value)}
-                            placeholder="Type your response here..."
-                            className="w-full h-44 bg-[var(--bg-primary)]/50 text-[var(--text-primary)] border border-[var(--glass-border)] rounded-xl py-4 px-5 text-[15px] font-normal placeholder:text-[var(--text-muted)] outline-none focus:border-indigo-500/30 transition-all resize-none leading-relaxed"
-                        />
+                        {currentQuestion && <AnswerInput question={currentQuestion} answer={answer} onChange={setAnswer} />}
+                        <DraftStatus lastSavedAt={lastSavedAt} />
                     </div>
 
+                    {isQueued && (
+                        <p role="status" className="mt-6 text-[12px] text-amber-600">
+                            Answer saved offline. It will be submitted automatically once the connection returns.
+                        </p>
+                    )}
+
                     {/* Footer Controls */}
                     <div className="mt-10 flex items-center justify-between">
                         <button
                             onClick={handleSkip}
-                            className="px-4 py-2 rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-all text-[11px] font-bold uppercase tracking-widest flex items-center gap-2 group"
+                            disabled={isQueued}
+                            className="disabled:opacity-40 disabled:pointer-events-none px-4 py-2 rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-all text-[11px] font-bold uppercase tracking-widest flex items-center gap-2 group"
                         >
                             Skip Phase
                             <SkipForward size={14} className="opacity-40 group-hover:opacity-100 transition-all" />
@@ -142,7 +173,8 @@ const QuestionPage = () => {
 
                         <button
                             onClick={handleNext}
-                            className="px-8 py-3.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-semibold transition-all duration-300 text-[11px] uppercase tracking-widest flex items-center gap-2 shadow-lg shadow-indigo-600/20 active:scale-95"
+                            disabled={isQueued}
+                            className="disabled:opacity-40 disabled:pointer-events-none px-8 py-3.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-semibold transition-all duration-300 text-[11px] uppercase tracking-widest flex items-center gap-2 shadow-lg shadow-indigo-600/20 active:scale-95"
                         >
                             {currentQuestionIndex === totalQuestions ? 'Finalize' : 'Next Question'}
                             {currentQuestionIndex === totalQuestions ? <Send size={14} /> : <ChevronRight size={14} />}
@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { CheckCircle2, ShieldAlert, Clock, TrendingUp, ArrowRight } from 'lucide-react';
+import { sessionService } from '../services/sessionService';
+import { proctoringService, DEFAULT_PROCTORING_POLICY } from '../services/proctoringService';
+import type { SessionResults, SessionResultsConfirmation } from '../types/session';
+import type { LoggedProctoringEvent, ProctoringEvent, ProctoringPolicy, ReviewNoteKind, ViolationKind } from '../types/proctoring';
+import TestResultList from './TestResultList';
+
+const VIOLATION_LABELS: Record<ViolationKind, string> = {
+    blur: 'Window focus lost',
+    fullscreen_exit: 'Fullscreen exited',
+    context_menu: 'Context menu opened',
+    restricted_key: 'Restricted shortcut',
+    multi_touch: 'Multi-touch gesture',
+    session_takeover: 'Session taken over',
+    screen_share_stopped: 'Screen sharing stopped',
+};
+
+const REVIEW_NOTE_LABELS: Record<ReviewNoteKind, string> = {
+    late_answer_accepted: 'Late answer accepted',
+    session_flagged: 'Flagged for review',
+    screen_share_unverified: 'Screen share unverified',
+};
+
+const isViolation = (event: LoggedProctoringEvent): event is ProctoringEvent => event.kind in VIOLATION_LABELS;
+
+const formatDuration = (seconds: number | null) => {
+    if (seconds === null) return '—';
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    return m > 0 ? `${m}m ${s}s` : `${s}s`;
+};
+
+const cardClass = "p-6 rounded-2xl bg-[var(--bg-secondary)] border border-[var(--glass-border)]";
+const labelClass = "text-[10px] font-semibold uppercase tracking-widest text-[var(--text-secondary)]";
+
+interface ResultsPageProps {
+    reviewMode?: boolean; // Interviewers and admins always see the full breakdown
+}
+
+/**
+ * Results Page - final score breakdown, or a plain confirmation when the policy hides scores
+ */
+export default function ResultsPage({ reviewMode = false }: ResultsPageProps) {
+    const { sessionId } = useParams();
+    const navigate = useNavigate();
+    const [results, setResults] = useState<SessionResults | SessionResultsConfirmation | null>(null);
+    const [policy, setPolicy] = useState<ProctoringPolicy | null>(null);
+    const [events, setEvents] = useState<LoggedProctoringEvent[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        // The proctored dashboard may have left the browser in fullscreen
+        if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    }, []);
+
+    useEffect(() => {
+        if (!sessionId) return;
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const loaded = await sessionService.getResults(sessionId);
+                // Resolve the policy before rendering so hidden scores never flash on screen;
+                // if it cannot be loaded, fall back to hiding them
+                const [loadedPolicy, loadedEvents] = await Promise.all([
+                    proctoringService.getPolicy({ domain: loaded.domain })
+                        .catch((): ProctoringPolicy => ({ ...DEFAULT_PROCTORING_POLICY, resultsVisibility: 'confirmation' })),
+                    proctoringService.getEvents(sessionId).catch(() => []),
+                ]);
+                if (cancelled) return;
+                setResults(loaded);
+                setPolicy(loadedPolicy);
+                setEvents(loadedEvents);
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load results');
+            }
+        };
+        load();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId]);
+
+    if (error) {
+        return (
+            <div className="min-h-screen w-full flex flex-col items-center justify-center bg-[var(--bg-primary)] p-6 text-center">
+                <p className="text-red-500 text-sm mb-6">Could not load results: {error}</p>
+                <button onClick={() => navigate('/')} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all">Return to Home</button>
+            </div>
+        );
+    }
+
+    if (!results || !policy) {
+        return (
+            <div className="min-h-screen w-full flex items-center justify-center bg-[var(--bg-primary)]">
+                <div className="w-12 h-12 border-4 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    const isTerminated = results.status === 'terminated';
+    const isTimedOut = results.status === 'timeout';
+
+    // The server already withholds scores from candidates when the policy hides them
+    if (results.resultsVisibility === 'confirmation' || (policy.resultsVisibility === 'confirmation' && !reviewMode)) {
+        return (
+            <div className="min-h-screen w-full flex items-center justify-center bg-[var(--bg-primary)] p-6">
+                <div className="max-w-md w-full p-12 rounded-[2rem] bg-[var(--bg-secondary)] border border-[var(--glass-border)] text-center">
+                    <div className={`w-16 h-16 rounded-2xl flex items-center justify-center mx-auto mb-8 ${isTerminated ? 'bg-red-500/10 text-red-500' : 'bg-indigo-500/10 text-indigo-400'}`}>
+                        {isTerminated ? <ShieldAlert size={32} /> : <CheckCircle2 size={32} />}
+                    </div>
+                    <h1 className="text-2xl font-semibold text-[var(--text-primary)] mb-3 tracking-tight">
+                        {isTerminated ? 'Session Ended' : isTimedOut ? 'Time Expired' : 'Assessment Submitted'}
+                    </h1>
+                    <p className="text-sm text-[var(--text-secondary)] mb-10">
+                        {isTerminated
+                            ? 'Your session was ended early. The responses you submitted have been recorded for review.'
+                            : isTimedOut
+                            ? `The time limit was reached after ${results.questionsAttempted} of ${results.totalQuestions} responses. The hiring team will share the outcome with you.`
+                            : `We received ${results.questionsAttempted} of ${results.totalQuestions} responses. The hiring team will share the outcome with you.`}
+                    </p>
+                    <button onClick={() => navigate('/')} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-xl uppercase tracking-widest text-[11px] transition-all">Return to Home</button>
+                </div>
+            </div>
+        );
+    }
+
+    const percentage = results.maxScore > 0 ? Math.round((results.finalScore / results.maxScore) * 100) : 0;
+    const totalSeconds = results.questions.reduce((sum, q) => sum + (q.timeSpentSeconds ?? 0), 0);
+    const violations = events.filter(isViolation);
+    const reviewNotes = events.filter(event => !isViolation(event));
+    const eventCounts = violations.reduce<Partial<Record<ViolationKind, number>>>((counts, event) => {
+        counts[event.kind] = (counts[event.kind] ?? 0) + 1;
+        return counts;
+    }, {});
+
+    return (
+        <div className="min-h-screen w-full bg-[var(--bg-primary)] text-[var(--text-primary)] px-6 py-12">
+            <div className="max-w-4xl mx-auto space-y-8">
+                <div>
+                    <p className={labelClass}>{results.domain} assessment</p>
+                    <h1 className="text-3xl font-semibold tracking-tight mt-2">{isTerminated ? 'Session Ended Early' : isTimedOut ? 'Time Expired' : 'Assessment Results'}</h1>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className={cardClass}>
+                        <p className={labelClass}>Total Score</p>
+                        <p className="text-3xl font-semibold mt-3">{results.finalScore.toFixed(1)}<span className="text-base text-[var(--text-secondary)]"> / {results.maxScore}</span></p>
+                        <div className="mt-4 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                            <div className="h-full bg-indigo-500" style={{ width: `${percentage}%` }} />
+                        </div>
+                    </div>
+                    <div className={cardClass}>
+                        <p className={`${labelClass} flex items-center gap-1.5`}><Clock size={12} /> Time Spent</p>
+                        <p className="text-3xl font-semibold mt-3">{formatDuration(totalSeconds)}</p>
+                        <p className="text-[12px] text-[var(--text-secondary)] mt-2">{results.questionsAttempted} of {results.totalQuestions} questions answered</p>
+                    </div>
+                    <div className={cardClass}>
+                        <p className={`${labelClass} flex items-center gap-1.5`}><TrendingUp size={12} /> Difficulty Progression</p>
+                        <div className="flex items-end gap-1.5 h-12 mt-4">
+                            {results.difficultyProgression.map((level, i) => (
+                                <div key={i} title={`Question ${i + 1}: difficulty ${level}`} className="flex-1 rounded-t bg-indigo-500/70" style={{ height: `${(level / 3) * 100}%` }} />
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className={cardClass}>
+                    <p className={`${labelClass} flex items-center gap-1.5 mb-4`}><ShieldAlert size={12} /> Proctoring Summary</p>
+                    <div className="flex flex-wrap gap-6 text-sm">
+                        <span>Risk score <strong>{results.riskScore.toFixed(1)}</strong> / {policy.maxScore}</span>
+                        <span>{violations.length} recorded event{violations.length === 1 ? '' : 's'}</span>
+                        {results.flaggedForReview && <span className="text-amber-500 font-semibold">Flagged for review</span>}
+                        {results.terminationReason && <span className="text-red-500">Ended: {results.terminationReason.replace(/_/g, ' ').toLowerCase()}</span>}
+                    </div>
+                    {violations.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-4">
+                            {(Object.keys(eventCounts) as ViolationKind[]).map(kind => (
+                                <span key={kind} className="px-2.5 py-1 rounded-md bg-white/5 text-[11px] text-[var(--text-secondary)]">{VIOLATION_LABELS[kind]} × {eventCounts[kind]}</span>
+                            ))}
+                        </div>
+                    )}
+                    {reviewNotes.length > 0 && (
+                        <ul className="mt-4 space-y-2">
+                            {reviewNotes.map(note => (
+                                <li key={note.eventId} className="text-[12px] text-amber-500">
+                                    <strong>{REVIEW_NOTE_LABELS[note.kind as ReviewNoteKind] ?? note.kind}</strong>
+                                    {note.questionIndex !== null && ` (question ${note.questionIndex})`}: {note.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="space-y-4">
+                    {results.questions.map((question, index) => (
+                        <div key={question.questionId} className={cardClass}>
+                            <div className="flex items-start justify-between gap-6 mb-3">
+                                <p className="text-[15px] leading-relaxed"><span className="text-[var(--text-muted)] mr-2">{index + 1}.</span>{question.text}</p>
+                                <p className="text-lg font-semibold shrink-0">{question.score.toFixed(1)}<span className="text-[12px] text-[var(--text-secondary)]"> / 10</span></p>
+                            </div>
+                            <div className="flex flex-wrap gap-2 mb-3 text-[10px] font-semibold uppercase tracking-widest text-[var(--text-secondary)]">
+                                <span className="px-2 py-1 rounded-md bg-white/5">Difficulty {question.difficulty}</span>
+                                <span className="px-2 py-1 rounded-md bg-white/5">{formatDuration(question.timeSpentSeconds)}</span>
+                            </div>
+                            {question.feedback && <p className="text-sm text-[var(--text-secondary)]">{question.feedback}</p>}
+                            {question.testResults.length > 0 && (
+                                <div className="mt-4">
+                                    <TestResultList results={question.testResults} />
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <button onClick={() => navigate('/')} className="px-6 py-3.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-[11px] font-semibold uppercase tracking-widest flex items-center gap-2 transition-all">
+                    Return to Home <ArrowRight size={14} />
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -27,17 +27,17 @@ const SubmissionModal = ({ isOpen, onConfirm }) => {
                 </div>
 
                 <h2 className="text-3xl font-semibold text-[var(--text-primary)] mb-4 tracking-tighter">
-                    Success!
+                    Assessment Submitted
                 </h2>
                 <p className="text-[var(--text-secondary)] text-[15px] leading-relaxed mb-12 px-2 font-normal">
-                    Your assessment results have been securely archived and transmitted to the evaluation center.
+                    All of your responses have been recorded. Continue to see your assessment summary.
                 </p>
 
                 <button
                     onClick={handleConfirm}
                     className="w-full py-5 bg-[#1a1a1c] hover:bg-indigo-600 text-white font-medium rounded-2xl transition-all duration-300 shadow-2xl flex items-center justify-center gap-3 text-[13px] border border-white/5 group active:scale-95"
                 >
-                    Finalize & Exit
+                    View Summary
                     <ArrowRight size={16} className="group-hover:translate-x-1 transition-transform" />
                 </button>
             </div>
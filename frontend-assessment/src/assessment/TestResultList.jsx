@@ -0,0 +1,46 @@
+import React from 'react';
+import { CheckCircle2, XCircle, EyeOff } from 'lucide-react';
+
+/**
+ * Pass/fail list for code test cases. Hidden cases show only their outcome.
+ */
+const TestResultList = ({ results, testCases = [] }) => {
+    if (!results || results.length === 0) return null;
+
+    const passed = results.filter(r => r.passed).length;
+
+    return (
+        <div className="rounded-xl border border-[var(--glass-border)] overflow-hidden">
+            <div className="px-4 py-2 flex items-center justify-between text-[10px] font-semibold uppercase tracking-widest border-b border-[var(--glass-border)]">
+                <span className="text-[var(--text-secondary)]">Test Results</span>
+                <span className={passed === results.length ? 'text-emerald-500' : 'text-amber-500'}>{passed} / {results.length} passed</span>
+            </div>
+            {results.map((result, index) => {
+                const testCase = testCases.find(t => t.testId === result.testId);
+                return (
+                    <div key={result.testId} className="px-4 py-2.5 border-b border-[var(--glass-border)] last:border-b-0 text-[12px] flex items-start gap-3">
+                        {result.passed
+                            ? <CheckCircle2 size={14} className="text-emerald-500 shrink-0 mt-0.5" />
+                            : <XCircle size={14} className="text-red-500 shrink-0 mt-0.5" />}
+                        <div className="flex-1 min-w-0 font-mono">
+                            <div className="flex items-center gap-2 text-[var(--text-primary)]">
+                                {result.hidden && <EyeOff size={12} className="text-[var(--text-muted)]" />}
+                                {result.hidden ? `Hidden case ${index + 1}` : `Case ${index + 1}`}
+                                <span className="text-[var(--text-muted)]">{result.runtimeMs} ms</span>
+                            </div>
+                            {testCase && !result.hidden && (
+                                <p className="text-[var(--text-secondary)] truncate">
+                                    ({testCase.input.map(arg => JSON.stringify(arg)).join(', ')}) → expected {JSON.stringify(testCase.expected)}
+                                    {!result.passed && result.actual !== undefined && <>, got {JSON.stringify(result.actual)}</>}
+                                </p>
+                            )}
+                            {result.error && <p className="text-red-500 truncate">{result.error}</p>}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default TestResultList;
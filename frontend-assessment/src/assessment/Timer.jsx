@@ -1,43 +1,76 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Clock } from 'lucide-react';
-import { sessionService } from '../services/sessionService';
+import { useSessionChannel } from '../hooks/useSessionChannel';
 
+const TICK_MS = 250;
+const WARNING_VISIBLE_MS = 4000;
+export const DEFAULT_WARNING_THRESHOLDS = [300, 60]; // Seconds remaining
 
+const formatWarning = (threshold) => {
+    if (threshold >= 60 && threshold % 60 === 0) {
+        const mins = threshold / 60;
+        return `${mins} minute${mins === 1 ? '' : 's'} remaining`;
+    }
+    return `${threshold} seconds remaining`;
+};
 
-const Timer = ({ isActive, remainingTime }) => {
-    const [seconds, setSeconds] = useState(null); 
-    const [isLoading, setIsLoading] = useState(true);
-    const [error, setError] = useState(null);
+const formatGrant = (seconds) => {
+    const mins = Math.round(seconds / 60);
+    return mins >= 1 ? `+${mins} minute${mins === 1 ? '' : 's'} added` : `+${seconds} seconds added`;
+};
 
-    
+/**
+ * Counts down to the server-provided deadline. Remaining time is derived from the
+ * wall clock on every tick, so throttled or delayed intervals never make it drift.
+ * While paused (offline) the display freezes until the deadline is reconciled again.
+ */
+const Timer = ({ isActive, isPaused = false, sessionId, deadline, label, warningThresholds = DEFAULT_WARNING_THRESHOLDS }) => {
+    const [now, setNow] = useState(() => Date.now());
+    const [warning, setWarning] = useState(null);
+    const [grant, setGrant] = useState(null);
+    const crossedRef = useRef(new Set());
 
-    const fetchRemainingTime = () => {
-        if (remainingTime !== undefined && remainingTime !== null) {
-            setSeconds(remainingTime);
-            setError(null);
-            setIsLoading(false);
-        }
-    };
+    // Extra time arrives over the session channel; the new deadline itself comes in through props
+    useSessionChannel(sessionId, (event) => {
+        if (event.type === 'extra_time') setGrant(formatGrant(event.data.seconds));
+    });
 
-    // 1. Initial fetch when page mounts/reloads
     useEffect(() => {
-        if (isActive) {
-            fetchRemainingTime();
-        }
-    }, [isActive, remainingTime]);
+        if (!grant) return;
+        const hide = setTimeout(() => setGrant(null), WARNING_VISIBLE_MS);
+        return () => clearTimeout(hide);
+    }, [grant]);
 
-    // 2. Backing Poll removed - Centralized in dashboard
+    useEffect(() => {
+        if (!isActive || isPaused || !deadline) return;
+        const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+        return () => clearInterval(interval);
+    }, [isActive, isPaused, deadline]);
 
-    // 3. High-latency local tick interval for smooth countdown
+    const seconds = deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : null;
+
+    // Warn once per threshold; a reconciled deadline that moves back above it re-arms the warning
     useEffect(() => {
-        let interval = null;
-        if (isActive && seconds !== null && seconds > 0) {
-            interval = setInterval(() => {
-                setSeconds((prev) => (prev && prev > 0 ? prev - 1 : 0));
-            }, 1000);
+        if (seconds === null || seconds === 0) return;
+        const crossed = crossedRef.current;
+        let reached = null;
+        for (const threshold of warningThresholds) {
+            if (seconds > threshold) {
+                crossed.delete(threshold);
+            } else if (!crossed.has(threshold)) {
+                crossed.add(threshold);
+                if (reached === null || threshold < reached) reached = threshold;
+            }
         }
-        return () => clearInterval(interval);
-    }, [isActive, seconds]);
+        if (reached === null) return;
+
+        const show = setTimeout(() => setWarning(formatWarning(reached)), 0);
+        const hide = setTimeout(() => setWarning(null), WARNING_VISIBLE_MS);
+        return () => {
+            clearTimeout(show);
+            clearTimeout(hide);
+        };
+    }, [seconds, warningThresholds]);
 
     const formatTime = (totalSeconds) => {
         if (totalSeconds === null) return '--:--';
@@ -46,7 +79,7 @@ const Timer = ({ isActive, remainingTime }) => {
         return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
     };
 
-    if (isLoading && seconds === null) {
+    if (seconds === null) {
         return (
              <div className="flex items-center gap-2 px-6 py-2.5 rounded-full bg-slate-500/5 text-slate-500 animate-pulse">
                  <Clock size={16} />
@@ -55,29 +88,44 @@ const Timer = ({ isActive, remainingTime }) => {
         );
     }
 
-    if (error && seconds === null) {
+    const isUrgent = seconds <= Math.max(...warningThresholds);
+
+    if (isPaused) {
         return (
-             <div className="flex items-center gap-2 px-6 py-2.5 rounded-full bg-red-500/5 text-red-500 border-2 border-red-500/20 shadow-2xl shadow-red-500/10">
-                 <Clock size={16} />
-                 <span className="text-[14px] font-medium">{error}</span>
-             </div>
+            <div className="flex items-center gap-3 px-6 py-2.5 rounded-full backdrop-blur-xl border-2 bg-slate-500/5 border-slate-500/20 text-slate-500">
+                <Clock size={16} />
+                {label && <span className="text-[9px] font-bold uppercase tracking-widest opacity-60 leading-none">{label}</span>}
+                <span className="text-[14px] font-medium tracking-tight leading-none">{formatTime(seconds)}</span>
+                <span className="text-[9px] font-bold uppercase tracking-widest leading-none">Offline</span>
+            </div>
         );
     }
 
-    const isUrgent = seconds !== null && seconds <= 300; // 5 minutes
-
     return (
-        <div className={`flex items-center gap-3 px-6 py-2.5 rounded-full backdrop-blur-xl border-2 transition-all duration-500 shadow-2xl ${
-            seconds === 0 ? 'bg-red-500/10 border-red-500/40 text-red-500 animate-shake' :
-            isUrgent
-            ? 'bg-red-500/5 border-red-500/20 text-red-500 shadow-red-500/10'
-            : 'bg-emerald-500/5 border-emerald-500/20 text-emerald-500 shadow-emerald-500/10'
-            }`}>
-            <Clock size={16} className={isUrgent ? 'animate-pulse' : ''} />
-            <span className="text-[14px] font-medium tracking-tight leading-none">
-                {seconds === 0 ? 'Time Up' : formatTime(seconds)}
-            </span>
-            <div className={`w-1.5 h-1.5 rounded-full ${isUrgent ? 'bg-red-500 animate-ping' : 'bg-emerald-500'}`} />
+        <div className="relative flex flex-col items-center">
+            <div className={`flex items-center gap-3 px-6 py-2.5 rounded-full backdrop-blur-xl border-2 transition-all duration-500 shadow-2xl ${
+                seconds === 0 ? 'bg-red-500/10 border-red-500/40 text-red-500 animate-shake' :
+                isUrgent
+                ? 'bg-red-500/5 border-red-500/20 text-red-500 shadow-red-500/10'
+                : 'bg-emerald-500/5 border-emerald-500/20 text-emerald-500 shadow-emerald-500/10'
+                }`}>
+                <Clock size={16} className={isUrgent ? 'animate-pulse' : ''} />
+                {label && <span className="text-[9px] font-bold uppercase tracking-widest opacity-60 leading-none">{label}</span>}
+                <span className="text-[14px] font-medium tracking-tight leading-none">
+                    {seconds === 0 ? 'Time Up' : formatTime(seconds)}
+                </span>
+                <div className={`w-1.5 h-1.5 rounded-full ${isUrgent ? 'bg-red-500 animate-ping' : 'bg-emerald-500'}`} />
+            </div>
+            {grant && !warning && (
+                <div role="status" className="absolute top-full mt-2 px-3 py-1 rounded-full bg-emerald-500/10 border border-emerald-500/20 text-emerald-500 text-[11px] font-semibold whitespace-nowrap animate-fade-in">
+                    {grant}
+                </div>
+            )}
+            {warning && seconds > 0 && (
+                <div role="status" className="absolute top-full mt-2 px-3 py-1 rounded-full bg-red-500/10 border border-red-500/20 text-red-500 text-[11px] font-semibold whitespace-nowrap animate-fade-in">
+                    {warning}
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,36 @@
+import type { Question, AnswerPayload } from '../types/session';
+
+/**
+ * Blank answer payload matching the question's kind.
+ */
+export const emptyAnswer = (question: Question): AnswerPayload => {
+    switch (question.kind) {
+        case 'single_choice':
+            return { kind: 'single_choice', selectedOptionId: '' };
+        case 'multi_choice':
+            return { kind: 'multi_choice', selectedOptionIds: [] };
+        case 'code':
+            return { kind: 'code', language: question.language, code: question.starterCode || '' };
+        case 'short_text':
+            return { kind: 'short_text', text: '' };
+        default:
+            return { kind: 'long_text', text: '' };
+    }
+};
+
+/**
+ * Whether the candidate has provided enough to submit.
+ */
+export const isAnswerReady = (answer: AnswerPayload | null): answer is AnswerPayload => {
+    if (!answer) return false;
+    switch (answer.kind) {
+        case 'single_choice':
+            return answer.selectedOptionId !== '';
+        case 'multi_choice':
+            return answer.selectedOptionIds.length > 0;
+        case 'code':
+            return answer.code.trim() !== '';
+        default:
+            return answer.text.trim() !== '';
+    }
+};
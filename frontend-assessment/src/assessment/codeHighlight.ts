@@ -0,0 +1,46 @@
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+}
+
+const KEYWORDS: Record<string, string[]> = {
+    javascript: ['const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'break', 'continue', 'switch', 'case', 'default', 'new', 'class', 'extends', 'this', 'typeof', 'instanceof', 'in', 'of', 'try', 'catch', 'finally', 'throw', 'async', 'await', 'null', 'undefined', 'true', 'false'],
+    typescript: ['interface', 'type', 'enum', 'implements', 'public', 'private', 'readonly', 'as', 'number', 'string', 'boolean'],
+    python: ['def', 'return', 'if', 'elif', 'else', 'for', 'while', 'in', 'not', 'and', 'or', 'is', 'import', 'from', 'as', 'class', 'try', 'except', 'finally', 'raise', 'with', 'lambda', 'yield', 'pass', 'break', 'continue', 'None', 'True', 'False', 'self'],
+    java: ['public', 'private', 'protected', 'static', 'final', 'class', 'interface', 'extends', 'implements', 'return', 'if', 'else', 'for', 'while', 'new', 'this', 'try', 'catch', 'finally', 'throw', 'void', 'int', 'long', 'double', 'boolean', 'char', 'String', 'null', 'true', 'false'],
+    sql: ['select', 'from', 'where', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'as', 'and', 'or', 'not', 'null', 'is', 'in', 'distinct', 'count', 'sum', 'avg'],
+};
+
+const COMMENT_PATTERNS: Record<string, string> = {
+    python: '#[^\\n]*',
+    sql: '--[^\\n]*',
+};
+
+/**
+ * Splits source into coloured tokens. A lightweight tokenizer - enough for readable
+ * highlighting in the answer editor, not a parser.
+ */
+export const highlight = (code: string, language: string): Token[] => {
+    const keywords = new Set(language === 'typescript'
+        ? [...KEYWORDS.javascript, ...KEYWORDS.typescript]
+        : KEYWORDS[language] ?? []);
+    const comment = COMMENT_PATTERNS[language] ?? '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/';
+    const pattern = new RegExp(`(${comment})|("(?:\\\\.|[^"\\\\])*"|'(?:\\\\.|[^'\\\\])*'|\`(?:\\\\.|[^\`\\\\])*\`)|(\\b\\d+(?:\\.\\d+)?\\b)|([A-Za-z_$][\\w$]*)`, 'g');
+
+    const tokens: Token[] = [];
+    let last = 0;
+    for (const match of code.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        if (index > last) tokens.push({ type: 'plain', text: code.slice(last, index) });
+
+        const [text, isComment, isString, isNumber] = match;
+        const isKeyword = keywords.has(language === 'sql' ? text.toLowerCase() : text);
+        const type: TokenType = isComment ? 'comment' : isString ? 'string' : isNumber ? 'number' : isKeyword ? 'keyword' : 'plain';
+        tokens.push({ type, text });
+        last = index + text.length;
+    }
+    if (last < code.length) tokens.push({ type: 'plain', text: code.slice(last) });
+    return tokens;
+};
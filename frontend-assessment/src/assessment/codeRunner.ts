@@ -0,0 +1,36 @@
+import type { CodeTestCase, TestCaseResult } from '../types/session';
+import type { RunRequest } from './codeRunner.worker';
+
+// Languages the browser runner can execute; the rest are only checked server-side
+export const RUNNABLE_LANGUAGES = ['javascript'];
+
+const RUN_TIMEOUT_MS = 5000;
+
+/**
+ * Runs candidate JavaScript against the visible test cases in a throwaway Web Worker.
+ * The worker is terminated after RUN_TIMEOUT_MS so infinite loops cannot hang the page.
+ */
+export const runTestCases = (code: string, entryPoint: string, testCases: CodeTestCase[]): Promise<TestCaseResult[]> =>
+    new Promise(resolve => {
+        const worker = new Worker(new URL('./codeRunner.worker.ts', import.meta.url), { type: 'module' });
+
+        const finish = (results: TestCaseResult[]) => {
+            clearTimeout(timer);
+            worker.terminate();
+            resolve(results);
+        };
+        const failAll = (error: string) => finish(testCases.map(testCase => ({
+            testId: testCase.testId,
+            hidden: false,
+            passed: false,
+            runtimeMs: 0,
+            error,
+        })));
+
+        const timer = setTimeout(() => failAll(`Timed out after ${RUN_TIMEOUT_MS / 1000}s.`), RUN_TIMEOUT_MS);
+        worker.onmessage = (event: MessageEvent<TestCaseResult[]>) => finish(event.data);
+        worker.onerror = (event) => failAll(event.message || 'The test runner crashed.');
+
+        const request: RunRequest = { code, entryPoint, testCases };
+        worker.postMessage(request);
+    });
@@ -0,0 +1,63 @@
+import type { CodeTestCase, TestCaseResult } from '../types/session';
+
+export interface RunRequest {
+    code: string;
+    entryPoint: string;
+    testCases: CodeTestCase[];
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length
+        && keysA.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+// Candidate code must not reach the network or load further scripts from the worker
+const scope = self as unknown as Record<string, unknown>;
+['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB'].forEach(name => {
+    scope[name] = undefined;
+});
+
+self.onmessage = (event: MessageEvent<RunRequest>) => {
+    const { code, entryPoint, testCases } = event.data;
+
+    let entry: unknown;
+    let loadError: string | undefined;
+    try {
+        entry = new Function(`${code}\nreturn typeof ${entryPoint} === 'function' ? ${entryPoint} : undefined;`)();
+        if (typeof entry !== 'function') loadError = `Function '${entryPoint}' is not defined.`;
+    } catch (err) {
+        loadError = err instanceof Error ? err.message : String(err);
+    }
+
+    const results: TestCaseResult[] = testCases.map(testCase => {
+        if (loadError) {
+            return { testId: testCase.testId, hidden: false, passed: false, runtimeMs: 0, error: loadError };
+        }
+        const started = performance.now();
+        try {
+            const actual = (entry as (...args: unknown[]) => unknown)(...structuredClone(testCase.input));
+            return {
+                testId: testCase.testId,
+                hidden: false,
+                passed: isEqual(actual, testCase.expected),
+                runtimeMs: Math.round((performance.now() - started) * 100) / 100,
+                actual,
+            };
+        } catch (err) {
+            return {
+                testId: testCase.testId,
+                hidden: false,
+                passed: false,
+                runtimeMs: Math.round((performance.now() - started) * 100) / 100,
+                error: err instanceof Error ? err.message : String(err),
+            };
+        }
+    });
+
+    self.postMessage(results);
+};
@@ -1,49 +1,122 @@
 import { useState } from 'react';
 import { Mail, Lock, User, Eye, EyeOff } from 'lucide-react';
-import { authService } from '../services/authService';
-import type { User as UserType } from '../services/authService';
+import { authService, AuthError } from '../services/authService';
+import { validateForm } from '../services/authValidation';
+import type { AuthFormName, FieldErrors } from '../services/authValidation';
+import type { InvitationPreview } from '../types/invitation';
 import { useLoading } from '../context/LoadingContext';
+import { useAuth } from '../context/useAuth';
+
+type AuthMode = 'login' | 'signup' | 'forgot';
+
+// Which shared validation form each mode submits
+const FORM_NAMES: Record<AuthMode, AuthFormName> = {
+    login: 'login',
+    signup: 'signup',
+    forgot: 'forgotPassword',
+};
+
+const FieldError = ({ message }: { message?: string }) =>
+    message ? <p className="mt-1 ml-1 text-[11px] font-medium text-red-500">{message}</p> : null;
+
+const inputClass = (hasError: boolean) =>
+    `w-full pl-11 py-2.5 rounded-xl outline-none transition-all duration-300 text-sm border bg-[var(--bg-primary)] text-[var(--text-primary)] focus:ring-4 ${
+        hasError ? 'border-red-500/50 focus:border-red-500/60 focus:ring-red-500/5' : 'border-[var(--glass-border)] focus:border-indigo-500/50 focus:ring-indigo-500/5'
+    }`;
+
+const HEADINGS: Record<AuthMode, { title: string; subtitle: string; submit: string }> = {
+    login: { title: 'Log in', subtitle: 'Secure access to your professional assessment dashboard.', submit: 'Log in' },
+    signup: { title: 'Create Account', subtitle: 'Join the community and start your journey today.', submit: 'Create account' },
+    forgot: { title: 'Reset Password', subtitle: "Enter your email and we'll send you a link to choose a new password.", submit: 'Send reset link' },
+};
 
 interface AuthProps {
-    onSuccess: (user: UserType) => void;
+    invitation?: InvitationPreview; // Opened from an invitation link: sign up (or in) as the invited email
 }
 
-export default function Auth({ onSuccess }: AuthProps) {
-    const [isLogin, setIsLogin] = useState(true);
+export default function Auth({ invitation }: AuthProps) {
+    const { login } = useAuth();
+    const [mode, setMode] = useState<AuthMode>(invitation ? 'signup' : 'login');
+    const [errorCode, setErrorCode] = useState<string | undefined>(); // AuthError code of the current error
     const [error, setError] = useState('');
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
     const [successMsg, setSuccessMsg] = useState('');
     const { showLoader, hideLoader } = useLoading();
     const [showPassword, setShowPassword] = useState(false);
     const [formData, setFormData] = useState({
         username: '',
-        email: '',
+        email: invitation?.email ?? '',
         password: '',
         full_name: '',
     });
 
+    const isLogin = mode === 'login';
+    const heading = HEADINGS[mode];
+
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setFormData({ ...formData, [e.target.name]: e.target.value });
+        const { name, value } = e.target;
+        setFormData({ ...formData, [name]: value });
+        setFieldErrors(prev => {
+            const next = { ...prev };
+            delete next[name];
+            return next;
+        });
         setError('');
         setSuccessMsg('');
+        setErrorCode(undefined);
+    };
+
+    const switchMode = (next: AuthMode) => {
+        setMode(next);
+        setError('');
+        setFieldErrors({});
+        setSuccessMsg('');
+        setErrorCode(undefined);
+    };
+
+    const handleResendVerification = async () => {
+        showLoader();
+        try {
+            const res = await authService.resendVerification(formData.email);
+            setErrorCode(undefined);
+            setError('');
+            setSuccessMsg(res.message);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not resend verification email');
+        } finally {
+            hideLoader();
+        }
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        showLoader();
         setError('');
         setSuccessMsg('');
 
+        const errors = validateForm(FORM_NAMES[mode], formData);
+        setFieldErrors(errors);
+        if (Object.keys(errors).length > 0) return;
+
+        showLoader();
+
         try {
-            if (isLogin) {
-                const res = await authService.login(formData.email, formData.password);
-                onSuccess(res.user);
+            if (mode === 'login') {
+                await login(formData.email, formData.password);
+            } else if (mode === 'signup') {
+                const res = await authService.signup(formData);
+                setMode('login');
+                setSuccessMsg(res.message);
+            } else {
+                const res = await authService.requestPasswordReset(formData.email);
+                setSuccessMsg(res.message);
+            }
+        } catch (err) {
+            setErrorCode(err instanceof AuthError ? err.code : undefined);
+            if (err instanceof AuthError && err.fieldErrors) {
+                setFieldErrors(err.fieldErrors);
             } else {
-                await authService.signup(formData);
-                setSuccessMsg('Account created successfully!');
-                setTimeout(() => setIsLogin(true), 1500);
+                setError(err instanceof Error ? err.message : 'Authentication failed');
             }
-        } catch (err: any) {
-            setError(err.message || 'Authentication failed');
         } finally {
             hideLoader();
         }
@@ -59,89 +132,129 @@ export default function Auth({ onSuccess }: AuthProps) {
             <div className="auth-container p-6 md:p-7 animate-fade-in relative z-10 transition-all duration-500 rounded-[2rem] bg-[var(--bg-secondary)] border border-[var(--glass-border)] shadow-2xl">
                 <div className="text-center mb-6">
                     <h2 className="text-3xl font-semibold mb-2 tracking-tight text-[var(--text-primary)]">
-                        {isLogin ? 'Log in' : 'Create Account'}
+                        {heading.title}
                     </h2>
                     <p className="text-sm font-normal leading-relaxed max-w-[300px] mx-auto text-[var(--text-secondary)]">
-                        {isLogin
-                            ? 'Secure access to your professional assessment dashboard.'
-                            : 'Join the community and start your journey today.'}
+                        {heading.subtitle}
                     </p>
                 </div>
 
-                <form onSubmit={handleSubmit} className="space-y-3">
-                    {!isLogin && (
+                {invitation && (
+                    <div className="mb-5 p-4 rounded-xl bg-indigo-500/10 border border-indigo-500/20">
+                        <p className="text-indigo-500 text-[11px] font-medium text-center leading-relaxed">
+                            You have been invited to the <span className="font-semibold uppercase tracking-wider">{invitation.domain}</span> assessment.
+                            Complete it by {new Date(invitation.deadline).toLocaleString()}.
+                        </p>
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} noValidate className="space-y-3">
+                    {mode === 'signup' && (
                         <>
-                            <div className="relative group">
-                                <User className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
-                                <input
-                                    type="text"
-                                    name="full_name"
-                                    required
-                                    placeholder="Full Name"
-                                    value={formData.full_name}
-                                    onChange={handleChange}
-                                    className="w-full pl-11 pr-4 py-2.5 rounded-xl outline-none transition-all duration-300 text-sm border bg-[var(--bg-primary)] border-[var(--glass-border)] text-[var(--text-primary)] focus:border-indigo-500/50 focus:ring-4 focus:ring-indigo-500/5"
-                                />
+                            <div>
+                                <div className="relative group">
+                                    <User className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
+                                    <input
+                                        type="text"
+                                        name="full_name"
+                                        required
+                                        placeholder="Full Name"
+                                        value={formData.full_name}
+                                        onChange={handleChange}
+                                        className={`${inputClass(!!fieldErrors.full_name)} pr-4`}
+                                    />
+                                </div>
+                                <FieldError message={fieldErrors.full_name} />
+                            </div>
+                            <div>
+                                <div className="relative group">
+                                    <User className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
+                                    <input
+                                        type="text"
+                                        name="username"
+                                        required
+                                        placeholder="Username"
+                                        value={formData.username}
+                                        onChange={handleChange}
+                                        className={`${inputClass(!!fieldErrors.username)} pr-4`}
+                                    />
+                                </div>
+                                <FieldError message={fieldErrors.username} />
                             </div>
+                        </>
+                    )}
+
+                    <div>
+                        <div className="relative group">
+                            <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
+                            <input
+                                type="email"
+                                name="email"
+                                required
+                                placeholder="Email Address"
+                                value={formData.email}
+                                onChange={handleChange}
+                                readOnly={!!invitation}
+                                className={`${inputClass(!!fieldErrors.email)} pr-4`}
+                            />
+                        </div>
+                        <FieldError message={fieldErrors.email} />
+                    </div>
+
+                    {mode !== 'forgot' && (
+                        <div>
                             <div className="relative group">
-                                <User className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
+                                <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
                                 <input
-                                    type="text"
-                                    name="username"
+                                    type={showPassword ? 'text' : 'password'}
+                                    name="password"
                                     required
-                                    placeholder="Username"
-                                    value={formData.username}
+                                    placeholder="Password"
+                                    value={formData.password}
                                     onChange={handleChange}
-                                    className="w-full pl-11 pr-4 py-2.5 rounded-xl outline-none transition-all duration-300 text-sm border bg-[var(--bg-primary)] border-[var(--glass-border)] text-[var(--text-primary)] focus:border-indigo-500/50 focus:ring-4 focus:ring-indigo-500/5"
+                                    className={`${inputClass(!!fieldErrors.password)} pr-12`}
                                 />
+                                <button
+                                    type="button"
+                                    onClick={() => setShowPassword(!showPassword)}
+                                    className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-500 hover:text-indigo-500 transition-colors"
+                                >
+                                    {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
+                                </button>
                             </div>
-                        </>
+                            <FieldError message={fieldErrors.password} />
+                        </div>
                     )}
 
-                    <div className="relative group">
-                        <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
-                        <input
-                            type="email"
-                            name="email"
-                            required
-                            placeholder="Email Address"
-                            value={formData.email}
-                            onChange={handleChange}
-                            className="w-full pl-11 pr-4 py-2.5 rounded-xl outline-none transition-all duration-300 text-sm border bg-[var(--bg-primary)] border-[var(--glass-border)] text-[var(--text-primary)] focus:border-indigo-500/50 focus:ring-4 focus:ring-indigo-500/5"
-                        />
-                    </div>
-
-                    <div className="relative group">
-                        <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
-                        <input
-                            type={showPassword ? 'text' : 'password'}
-                            name="password"
-                            required
-                            placeholder="Password"
-                            value={formData.password}
-                            onChange={handleChange}
-                            className="w-full pl-11 pr-12 py-2.5 rounded-xl outline-none transition-all duration-300 text-sm border bg-[var(--bg-primary)] border-[var(--glass-border)] text-[var(--text-primary)] focus:border-indigo-500/50 focus:ring-4 focus:ring-indigo-500/5"
-                        />
-                        <button
-                            type="button"
-                            onClick={() => setShowPassword(!showPassword)}
-                            className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-500 hover:text-indigo-500 transition-colors"
-                        >
-                            {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
-                        </button>
-                    </div>
+                    {isLogin && (
+                        <div className="text-right">
+                            <button type="button" onClick={() => switchMode('forgot')} className="text-[11px] font-medium text-[var(--text-secondary)] hover:text-indigo-500 transition-colors">
+                                Forgot password?
+                            </button>
+                        </div>
+                    )}
 
                     <button
                         type="submit"
                         className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-3 rounded-xl transition-all duration-300 active:scale-[0.98] shadow-lg shadow-indigo-600/20 mt-3 text-[12px] uppercase tracking-widest"
                     >
-                        {isLogin ? 'Log in' : 'Create account'}
+                        {heading.submit}
                     </button>
                 </form>
 
                 {error && (
                     <div className="mt-6 p-4 rounded-xl bg-red-500/10 border border-red-500/20">
                         <p className="text-red-500 text-[11px] font-medium text-center">{error}</p>
+                        {errorCode === 'EMAIL_NOT_VERIFIED' && (
+                            <button type="button" onClick={handleResendVerification} className="block mx-auto mt-2 text-[11px] font-semibold text-indigo-500 hover:underline underline-offset-4">
+                                Resend verification email
+                            </button>
+                        )}
+                        {errorCode === 'ACCOUNT_LOCKED' && (
+                            <button type="button" onClick={() => switchMode('forgot')} className="block mx-auto mt-2 text-[11px] font-semibold text-indigo-500 hover:underline underline-offset-4">
+                                Reset password
+                            </button>
+                        )}
                     </div>
                 )}
                 {successMsg && (
@@ -152,12 +265,9 @@ export default function Auth({ onSuccess }: AuthProps) {
 
                 <div className="mt-6 text-center border-t border-[var(--glass-border)] pt-6">
                     <p className="text-sm font-medium text-[var(--text-secondary)]">
-                        {isLogin ? "No account yet? " : "Already registered? "}
+                        {isLogin ? "No account yet? " : mode === 'forgot' ? "Remembered it? " : "Already registered? "}
                         <button
-                            onClick={() => {
-                                setIsLogin(!isLogin);
-                                setError('');
-                            }}
+                            onClick={() => switchMode(isLogin ? 'signup' : 'login')}
                             className="text-indigo-500 hover:underline underline-offset-4"
                         >
                             {isLogin ? 'Create one' : 'Log in'}
@@ -1,20 +1,39 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
-    Outlet, useNavigate, useLocation
+    Outlet, useNavigate, useLocation, useMatch
 } from 'react-router-dom';
 import {
-    AlertCircle, ShieldAlert, AlertTriangle
+    AlertCircle, ShieldAlert, AlertTriangle, Clock, MessageSquare, MonitorSmartphone
 } from 'lucide-react';
 import Draggable from 'react-draggable';
 import AssessmentLayout from '../assessment/AssessmentLayout';
 import { useSession } from '../hooks/useSession';
+import { useAuth } from '../context/useAuth';
+import { proctoringService } from '../services/proctoringService';
+import { useProctoringPolicy } from '../hooks/useProctoringPolicy';
+import type { ViolationKind, ViolationSeverity } from '../types/proctoring';
+
+const VIOLATION_SEVERITY: Record<ViolationKind, ViolationSeverity> = {
+    blur: 'medium',
+    fullscreen_exit: 'high',
+    context_menu: 'low',
+    restricted_key: 'medium',
+    multi_touch: 'low',
+    session_takeover: 'medium',
+    screen_share_stopped: 'high',
+};
 
 /**
  * ProctoringPanel - Isolated component for better drag performance
  * Uses React.memo and individual refs to prevent dashboard-wide re-renders
  */
-const ProctoringPanel = React.memo(({ stream, nodeRef }: { stream: MediaStream | null; nodeRef: React.RefObject<HTMLDivElement | null> }) => {
+const ProctoringPanel = React.memo(({ stream, screenStream, nodeRef }: {
+    stream: MediaStream | null;
+    screenStream: MediaStream | null;
+    nodeRef: React.RefObject<HTMLDivElement | null>;
+}) => {
     const localVideoRef = useRef<HTMLVideoElement>(null);
+    const screenVideoRef = useRef<HTMLVideoElement>(null);
 
     useEffect(() => {
         if (localVideoRef.current && stream) {
@@ -22,6 +41,12 @@ const ProctoringPanel = React.memo(({ stream, nodeRef }: { stream: MediaStream |
         }
     }, [stream]);
 
+    useEffect(() => {
+        if (screenVideoRef.current) {
+            screenVideoRef.current.srcObject = screenStream;
+        }
+    }, [screenStream]);
+
     return (
         <Draggable
             nodeRef={nodeRef as React.RefObject<HTMLElement>}
@@ -29,13 +54,23 @@ const ProctoringPanel = React.memo(({ stream, nodeRef }: { stream: MediaStream |
         >
             <div
                 ref={nodeRef}
-                className="fixed bottom-10 right-10 w-56 aspect-video bg-[var(--bg-secondary)] rounded-2xl overflow-hidden cursor-move border border-[var(--glass-border)] z-[200] group shadow-2xl transition-shadow duration-300 hover:shadow-indigo-500/10 active:scale-[0.98]"
+                className="fixed bottom-10 right-10 flex gap-2 cursor-move z-[200] group active:scale-[0.98]"
             >
-                <video ref={localVideoRef} autoPlay playsInline muted className="w-full h-full object-cover scale-x-[-1] pointer-events-none" />
+                {screenStream && (
+                    <div className="relative w-56 aspect-video bg-[var(--bg-secondary)] rounded-2xl overflow-hidden border border-[var(--glass-border)] shadow-2xl">
+                        <video ref={screenVideoRef} autoPlay playsInline muted className="w-full h-full object-contain bg-black pointer-events-none" />
+                        <div className="absolute top-3 left-3 px-2.5 py-1 rounded-full bg-black/60 border border-white/10 pointer-events-none">
+                            <span className="text-[9px] font-bold uppercase tracking-wider text-white">Screen</span>
+                        </div>
+                    </div>
+                )}
+                <div className="relative w-56 aspect-video bg-[var(--bg-secondary)] rounded-2xl overflow-hidden border border-[var(--glass-border)] shadow-2xl transition-shadow duration-300 group-hover:shadow-indigo-500/10">
+                    <video ref={localVideoRef} autoPlay playsInline muted className="w-full h-full object-cover scale-x-[-1] pointer-events-none" />
 
-                <div className="absolute top-3 left-3 flex items-center gap-2 px-2.5 py-1 rounded-full bg-black/60 border border-white/10 pointer-events-none">
-                    <div className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
-                    <span className="text-[9px] font-bold uppercase tracking-wider text-white">Live Monitor</span>
+                    <div className="absolute top-3 left-3 flex items-center gap-2 px-2.5 py-1 rounded-full bg-black/60 border border-white/10 pointer-events-none">
+                        <div className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+                        <span className="text-[9px] font-bold uppercase tracking-wider text-white">Live Monitor</span>
+                    </div>
                 </div>
             </div>
         </Draggable>
@@ -45,35 +80,58 @@ const ProctoringPanel = React.memo(({ stream, nodeRef }: { stream: MediaStream |
 /**
  * Premium Interview Dashboard - Modern SaaS Style
  */
-export default function InterviewDashboard({ user }: { user: any }) {
+export default function InterviewDashboard() {
+    const { user, invitation, completeInvitation } = useAuth();
+    const candidateId = user ? String(user.id) : undefined;
     const navigate = useNavigate();
     const location = useLocation();
 
     // Core State
     const [phase, setPhase] = useState<'loading' | 'live' | 'error'>('loading');
     const [isSecured, setIsSecured] = useState(false);
+    // Domain whose policy the candidate accepted at the gate; picking another domain re-runs the pre-flight
+    const [securedDomain, setSecuredDomain] = useState<string | undefined>(undefined);
     const [proctoringWarnings, setProctoringWarnings] = useState(0);
     const [showWarningPopup, setShowWarningPopup] = useState({ show: false, message: '' });
     const [errorHeader, setErrorHeader] = useState('');
     const [errorMessage, setErrorMessage] = useState('');
     const [testFailed, setTestFailed] = useState(false);
+    const [isFlagged, setIsFlagged] = useState(false);
+    const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+    const [screenShareError, setScreenShareError] = useState('');
 
     // Elevated Session State for single Node truth
     const { 
-        sessionId, currentQuestion, currentQuestionIndex, remainingTime, 
-        isLoading, error, setError, startSession, fetchQuestion, submitAnswer, endSession 
-    } = useSession(user?.id);
+        sessionId, currentQuestion, currentQuestionIndex, assessmentDeadline, questionDeadline, sessionDomain,
+        isLoading, error, setError, startSession, fetchQuestion, submitAnswer, endSession,
+        isCompleted, isTerminated, isTimedOut, attemptBlock, terminateSession, flagSession, isOffline, pendingSubmissions, rejectedSubmissions,
+        proctorMessage, dismissProctorMessage, leaseState, takeOverSession
+    } = useSession(candidateId);
+    // Another tab or device holds the session; this one must not run proctoring or accept input
+    const isDisplaced = leaseState === 'elsewhere' || leaseState === 'revoked';
 
     const isAssessmentActive = location.pathname.includes('/assessment');
     const isQuestionPage = location.pathname.includes('/assessment/question');
+    const questionMatch = useMatch('/assessment/question/:domain/:id');
+    const routeDomain = questionMatch?.params.domain;
+    // Outside question routes the pre-flight runs against the resumed session's or the invited domain
+    const policyDomain = routeDomain ?? sessionDomain ?? invitation?.domain;
+    const { policy, isLoaded: isPolicyLoaded } = useProctoringPolicy(policyDomain);
+    // Policies that disable the screen-share listener also waive the entire-screen requirement
+    const requiresScreenShare = policy.enabledListeners.screen_share_stopped;
+    const isScreenShared = screenStream?.getVideoTracks()[0]?.readyState === 'live';
+    const isEnvironmentReady = isSecured && isPolicyLoaded && securedDomain === policyDomain
+        && (isScreenShared || !requiresScreenShare);
 
     // Refs
     const streamRef = useRef<MediaStream | null>(null);
     const screenStreamRef = useRef<MediaStream | null>(null);
+    const unverifiedShareRef = useRef<MediaStream | null>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
     const draggableRef = useRef<HTMLDivElement>(null);
     const hasRequestedRef = useRef(false);
-    const lastWarningTimeRef = useRef(0);
+    const lastViolationAtRef = useRef<Partial<Record<ViolationKind, number>>>({});
+    const violationScoreRef = useRef(0);
 
     // Media Management
     const stopTracks = useCallback(() => {
@@ -118,19 +176,39 @@ export default function InterviewDashboard({ user }: { user: any }) {
         }
     }, [phase, isAssessmentActive]);
 
+    const requestScreenShare = async () => {
+        try {
+            const display = await navigator.mediaDevices.getDisplayMedia({ video: { displaySurface: 'monitor' }, audio: false });
+            const [track] = display.getVideoTracks();
+            // The surface is only a hint; browsers still offer windows and tabs, so check what was actually picked.
+            // Browsers that do not report the surface (e.g. older Safari and Firefox) are given the benefit of the doubt,
+            // but the share is noted for reviewers
+            const surface = track?.getSettings().displaySurface;
+            if (!track || (surface !== undefined && surface !== 'monitor')) {
+                display.getTracks().forEach(t => t.stop());
+                setScreenShareError('Please share your entire screen, not a single window or browser tab.');
+                return false;
+            }
+            screenStreamRef.current?.getTracks().forEach(t => t.stop());
+            screenStreamRef.current = display;
+            unverifiedShareRef.current = surface === undefined ? display : null;
+            setScreenStream(display);
+            setScreenShareError('');
+            return true;
+        } catch (err) {
+            console.error("Screen share failed", err);
+            setScreenShareError('Screen sharing is required for this assessment. Allow it when your browser asks.');
+            return false;
+        }
+    };
+
     const enterFullscreen = async () => {
         try {
             if (!document.fullscreenElement) {
                 await document.documentElement.requestFullscreen();
             }
             setIsSecured(true);
-            try {
-                console.log("[Dashboard] Starting Session after security lock...");
-                const response = await startSession(user?.id);
-                console.log("[Dashboard] Session Started:", response.sessionId);
-            } catch (err) {
-                 console.error("[Dashboard] startSession failed inside enterFullscreen:", err);
-            }
+            setSecuredDomain(policyDomain);
             return true;
         } catch (err) {
             console.error("Fullscreen failed", err);
@@ -139,21 +217,71 @@ export default function InterviewDashboard({ user }: { user: any }) {
         }
     };
 
-    const handleViolation = useCallback(async (msg: string, immediate: boolean = false) => {
+    // Start a session for the routed domain once the security lock is in place
+    useEffect(() => {
+        if (!isQuestionPage || !isEnvironmentReady || !routeDomain || !candidateId || sessionId || isCompleted || isTerminated || isTimedOut || attemptBlock) return;
+        // An invited candidate may only start the assessment they were invited to
+        if (invitation && invitation.domain !== routeDomain) {
+            navigate(`/assessment/question/${invitation.domain}/1`, { replace: true });
+            return;
+        }
+        console.log(`[Dashboard] Starting ${routeDomain} session after security lock...`);
+        startSession(routeDomain)
+            .then(response => {
+                console.log("[Dashboard] Session Started:", response?.sessionId);
+                if (invitation && response?.sessionId) completeInvitation();
+            })
+            .catch(err => console.error("[Dashboard] startSession failed:", err));
+    }, [isQuestionPage, isEnvironmentReady, routeDomain, sessionId, isCompleted, isTerminated, isTimedOut, attemptBlock, startSession, candidateId, invitation, completeInvitation, navigate]);
+
+    // A resumed session always lands on its own domain's question route
+    useEffect(() => {
+        if (isQuestionPage && sessionDomain && routeDomain && sessionDomain !== routeDomain) {
+            navigate(`/assessment/question/${sessionDomain}/${currentQuestionIndex}`, { replace: true });
+        }
+    }, [isQuestionPage, sessionDomain, routeDomain, currentQuestionIndex, navigate]);
+
+    // Upload any events left queued by a previous page load
+    useEffect(() => {
+        proctoringService.flush();
+    }, []);
+
+    const enforceLimit = useCallback((score: number) => {
+        if (score < policy.maxScore) return;
+        if (policy.onLimitReached === 'terminate') {
+            setTestFailed(true);
+            stopTracks();
+            terminateSession('PROCTORING_LIMIT_EXCEEDED', score);
+            setTimeout(() => navigate('/'), 4000);
+        } else {
+            setIsFlagged(true);
+            flagSession(score);
+        }
+    }, [policy, navigate, stopTracks, terminateSession, flagSession]);
+
+    const handleViolation = useCallback(async (kind: ViolationKind, msg: string, immediate: boolean = false, recordedByServer: boolean = false) => {
+        if (!policy.enabledListeners[kind]) return;
+
         const now = Date.now();
-        // Bypass throttle for immediate actions (like Escape key)
-        if (!immediate && now - lastWarningTimeRef.current < 2000) return;
-        lastWarningTimeRef.current = now;
-
-        setProctoringWarnings(prev => {
-            const newVal = prev + 1;
-            if (newVal >= 5) {
-                setTestFailed(true);
-                stopTracks();
-                setTimeout(() => navigate('/'), 4000);
-            }
-            return newVal;
-        });
+        // Bypass the grace window for immediate actions (like Escape key)
+        const lastAt = lastViolationAtRef.current[kind] ?? 0;
+        if (!immediate && now - lastAt < policy.graceWindowsMs[kind]) return;
+        lastViolationAtRef.current[kind] = now;
+
+        if (sessionId && !recordedByServer) {
+            proctoringService.record({
+                sessionId,
+                kind,
+                severity: VIOLATION_SEVERITY[kind],
+                questionIndex: isQuestionPage ? currentQuestionIndex : null,
+                message: msg,
+            });
+        }
+
+        const newVal = violationScoreRef.current + policy.weights[kind];
+        violationScoreRef.current = newVal;
+        setProctoringWarnings(newVal);
+        enforceLimit(newVal);
 
         setShowWarningPopup({ show: true, message: msg });
         setIsSecured(false); // Force re-authorization gate
@@ -162,25 +290,58 @@ export default function InterviewDashboard({ user }: { user: any }) {
             // Attempt a best-effort sync restoration
             document.documentElement.requestFullscreen().catch(() => { });
         }
-    }, [navigate, stopTracks]);
+    }, [sessionId, currentQuestionIndex, isQuestionPage, policy, enforceLimit]);
+
+    // The score lives in memory, so after a reload it is rebuilt from the recorded log under the loaded policy
+    const isSessionOver = isCompleted || isTerminated || isTimedOut;
+    useEffect(() => {
+        if (!sessionId || !isPolicyLoaded || isSessionOver) return;
+        let cancelled = false;
+        proctoringService.violationScore(sessionId, policy.weights)
+            .then(score => {
+                // Violations recorded since this page loaded are part of the log too
+                if (cancelled || score <= violationScoreRef.current) return;
+                violationScoreRef.current = score;
+                setProctoringWarnings(score);
+                enforceLimit(score);
+            })
+            .catch(err => console.error('[Proctoring] Could not restore the violation score:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId, isPolicyLoaded, isSessionOver, policy.weights, enforceLimit]);
+
+    // Moving a running session to this window is recorded like any other violation
+    const handleTakeover = async () => {
+        const lease = await takeOverSession();
+        if (lease?.tookOver) {
+            // The session backend logs the takeover itself; this only counts it towards the local limit
+            handleViolation('session_takeover', 'This assessment was moved here from another tab or device. The switch has been recorded.', true, true);
+        }
+    };
+
+    // A displaced window lets go of the camera
+    useEffect(() => {
+        if (leaseState === 'revoked') stopTracks();
+    }, [leaseState, stopTracks]);
 
     // Security Listeners
     useEffect(() => {
-        if (!isAssessmentActive || phase !== 'live' || testFailed) return;
+        if (!isAssessmentActive || phase !== 'live' || testFailed || isDisplaced) return;
 
-        const handleBlur = () => handleViolation('Environment focus lost. Unauthorized background activity detected.');
+        const handleBlur = () => handleViolation('blur', 'Environment focus lost. Unauthorized background activity detected.');
         const handleFullscreenChange = () => {
             if (!document.fullscreenElement && isAssessmentActive && !testFailed) {
                 setIsSecured(false);
                 if (isSecured) {
-                    handleViolation('Security breach: Fullscreen mode bypassed.');
+                    handleViolation('fullscreen_exit', 'Security breach: Fullscreen mode bypassed.');
                 }
             }
         };
         const handleContextMenu = (e: MouseEvent) => {
             if (isAssessmentActive) {
                 e.preventDefault();
-                handleViolation('Unauthorized interaction: Right-click restricted.');
+                handleViolation('context_menu', 'Unauthorized interaction: Right-click restricted.');
             }
         };
 
@@ -195,27 +356,67 @@ export default function InterviewDashboard({ user }: { user: any }) {
                 if (e.key !== 'Enter' && e.key !== ' ' && e.key !== 'Backspace' && e.key.length !== 1) {
                     e.preventDefault();
                     // If Escape, use it as a gesture to immediately restore
-                    handleViolation('Security violation detected. Potential environment tampering.', e.key === 'Escape');
+                    handleViolation('restricted_key', 'Security violation detected. Potential environment tampering.', e.key === 'Escape');
                 }
             }
         };
 
-        window.addEventListener('blur', handleBlur);
+        const handleTouchStart = (e: TouchEvent) => {
+            if (e.touches.length > 1) {
+                e.preventDefault();
+                handleViolation('multi_touch', 'Multi-touch gestures are restricted during the assessment.');
+            }
+        };
+
+        // Fullscreen tracking always runs so the security gate is restored;
+        // handleViolation itself skips kinds the policy disables.
+        const { enabledListeners } = policy;
+        if (enabledListeners.blur) window.addEventListener('blur', handleBlur);
         document.addEventListener('fullscreenchange', handleFullscreenChange);
-        window.addEventListener('contextmenu', handleContextMenu);
-        window.addEventListener('keydown', handleKeyDown);
+        if (enabledListeners.context_menu) window.addEventListener('contextmenu', handleContextMenu);
+        if (enabledListeners.restricted_key) window.addEventListener('keydown', handleKeyDown);
+        if (enabledListeners.multi_touch) window.addEventListener('touchstart', handleTouchStart, { passive: false });
 
         return () => {
             window.removeEventListener('blur', handleBlur);
             document.removeEventListener('fullscreenchange', handleFullscreenChange);
             window.removeEventListener('contextmenu', handleContextMenu);
             window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('touchstart', handleTouchStart);
+        };
+    }, [isAssessmentActive, phase, handleViolation, testFailed, isDisplaced, isSecured, policy]);
+
+    // Stopping the share from the browser ends its track ('ended' does not fire for our own stop())
+    useEffect(() => {
+        const track = screenStream?.getVideoTracks()[0];
+        if (!track) return;
+        const handleEnded = () => {
+            screenStreamRef.current = null;
+            setScreenStream(null);
+            if (isAssessmentActive && !testFailed && !isDisplaced) {
+                handleViolation('screen_share_stopped', 'Screen sharing stopped. Share your entire screen again to continue.', true);
+            }
         };
-    }, [isAssessmentActive, phase, handleViolation, testFailed, isSecured]);
+        track.addEventListener('ended', handleEnded);
+        return () => track.removeEventListener('ended', handleEnded);
+    }, [screenStream, isAssessmentActive, testFailed, isDisplaced, handleViolation]);
+
+    // A share may be accepted before the session starts, so its note is recorded once there is a session to log it on
+    useEffect(() => {
+        if (!sessionId || !screenStream || unverifiedShareRef.current !== screenStream) return;
+        unverifiedShareRef.current = null;
+        proctoringService.record({
+            sessionId,
+            kind: 'screen_share_unverified',
+            severity: 'low',
+            questionIndex: isQuestionPage ? currentQuestionIndex : null,
+            message: 'The browser did not report the shared surface, so sharing the entire screen could not be verified.',
+        });
+    }, [sessionId, screenStream, isQuestionPage, currentQuestionIndex]);
 
 
 
-    if (testFailed) {
+    if (testFailed || isTerminated) {
         return (
             <div className="fixed inset-0 z-[2000] bg-[var(--bg-primary)] flex items-center justify-center p-8 text-center animate-in fade-in duration-500">
                 <div className="max-w-sm w-full p-12 bg-[var(--bg-secondary)] border border-red-500/20 rounded-[2rem] shadow-2xl">
@@ -225,6 +426,97 @@ export default function InterviewDashboard({ user }: { user: any }) {
                     <h2 className="text-2xl font-semibold text-red-500 mb-4 tracking-tight uppercase">Session Terminated</h2>
                     <p className="text-[var(--text-secondary)] mb-10 text-sm font-normal">Environmental violations detected. Access has been revoked to maintain assessment integrity.</p>
                     <button onClick={() => navigate('/')} className="w-full py-4 bg-red-600 hover:bg-red-500 text-white font-bold rounded-xl uppercase tracking-widest text-[10px] transition-all">Return to Home</button>
+                    {sessionId && (
+                        <button onClick={() => navigate(`/assessment/results/${sessionId}`)} className="w-full mt-3 py-4 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold rounded-xl uppercase tracking-widest text-[10px] transition-all">View Summary</button>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    if (isTimedOut) {
+        return (
+            <div className="fixed inset-0 z-[2000] bg-[var(--bg-primary)] flex items-center justify-center p-8 text-center animate-in fade-in duration-500">
+                <div className="max-w-sm w-full p-12 bg-[var(--bg-secondary)] border border-amber-500/20 rounded-[2rem] shadow-2xl">
+                    <div className="w-16 h-16 rounded-2xl bg-amber-500/10 flex items-center justify-center text-amber-500 mx-auto mb-8 border border-amber-500/10">
+                        <Clock className="w-8 h-8" />
+                    </div>
+                    <h2 className="text-2xl font-semibold text-amber-500 mb-4 tracking-tight uppercase">Time Expired</h2>
+                    <p className="text-[var(--text-secondary)] mb-10 text-sm font-normal">The time budget for this assessment has run out. Answers submitted before the deadline have been recorded.</p>
+                    {pendingSubmissions.length > 0 && (
+                        <p className="-mt-6 mb-10 text-sm font-medium text-[var(--text-primary)]">
+                            Sending {pendingSubmissions.length} answer{pendingSubmissions.length > 1 ? 's' : ''} saved while offline…
+                        </p>
+                    )}
+                    {rejectedSubmissions.length > 0 && (
+                        <div className="-mt-6 mb-10 p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-left">
+                            <p className="text-sm font-medium text-red-500">
+                                {rejectedSubmissions.length} answer{rejectedSubmissions.length > 1 ? 's were' : ' was'} not accepted:
+                            </p>
+                            {rejectedSubmissions.map((rejected, index) => (
+                                <p key={`${rejected.questionId}-${index}`} className="mt-1 text-xs text-[var(--text-secondary)]">{rejected.message}</p>
+                            ))}
+                        </div>
+                    )}
+                    <button onClick={() => navigate('/')} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl uppercase tracking-widest text-[10px] transition-all">Return to Home</button>
+                    {sessionId && (
+                        <button onClick={() => navigate(`/assessment/results/${sessionId}`)} className="w-full mt-3 py-4 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold rounded-xl uppercase tracking-widest text-[10px] transition-all">View Summary</button>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    if (isDisplaced) {
+        const wasTakenOver = leaseState === 'revoked';
+        return (
+            <div className="fixed inset-0 z-[2000] bg-[var(--bg-primary)] flex items-center justify-center p-8 text-center animate-in fade-in duration-500">
+                <div className="max-w-sm w-full p-12 bg-[var(--bg-secondary)] border border-amber-500/20 rounded-[2rem] shadow-2xl">
+                    <div className="w-16 h-16 rounded-2xl bg-amber-500/10 flex items-center justify-center text-amber-500 mx-auto mb-8 border border-amber-500/10">
+                        <MonitorSmartphone className="w-8 h-8" />
+                    </div>
+                    <h2 className="text-2xl font-semibold text-amber-500 mb-4 tracking-tight uppercase">
+                        {wasTakenOver ? 'Session Moved' : 'Session Active Elsewhere'}
+                    </h2>
+                    <p className="text-[var(--text-secondary)] mb-10 text-sm font-normal">
+                        {wasTakenOver
+                            ? 'This assessment was continued in another tab or on another device, so this window has been disconnected.'
+                            : 'This assessment is already open in another tab or on another device. Only one window can be used at a time.'}
+                    </p>
+                    <button onClick={handleTakeover} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl uppercase tracking-widest text-[10px] transition-all">Continue Here</button>
+                    <p className="mt-3 text-[10px] text-[var(--text-secondary)]">Switching windows is recorded for your proctor.</p>
+                    <button onClick={() => navigate('/')} className="w-full mt-3 py-4 text-[var(--text-secondary)] hover:text-[var(--text-primary)] font-bold rounded-xl uppercase tracking-widest text-[10px] transition-all">Return to Home</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (attemptBlock) {
+        const isCooldown = attemptBlock.code === 'RETAKE_COOLDOWN';
+        const title = isCooldown ? 'Retake Not Yet Available'
+            : attemptBlock.code === 'INVITATION_EXPIRED' ? 'Invitation Expired' : 'No Attempts Remaining';
+        return (
+            <div className="fixed inset-0 z-[2000] bg-[var(--bg-primary)] flex items-center justify-center p-8 text-center animate-in fade-in duration-500">
+                <div className="max-w-sm w-full p-12 bg-[var(--bg-secondary)] border border-amber-500/20 rounded-[2rem] shadow-2xl">
+                    <div className="w-16 h-16 rounded-2xl bg-amber-500/10 flex items-center justify-center text-amber-500 mx-auto mb-8 border border-amber-500/10">
+                        {isCooldown ? <Clock className="w-8 h-8" /> : <AlertCircle className="w-8 h-8" />}
+                    </div>
+                    <h2 className="text-2xl font-semibold text-amber-500 mb-4 tracking-tight uppercase">
+                        {title}
+                    </h2>
+                    <p className="text-[var(--text-secondary)] mb-4 text-sm font-normal">{attemptBlock.message}</p>
+                    {attemptBlock.retryAt && (
+                        <p className="text-[var(--text-primary)] mb-10 text-sm font-medium">Retry after {new Date(attemptBlock.retryAt).toLocaleString()}</p>
+                    )}
+                    <button
+                        onClick={() => {
+                            endSession();
+                            navigate('/assessment/domain');
+                        }}
+                        className="w-full mt-6 py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl uppercase tracking-widest text-[10px] transition-all"
+                    >
+                        Choose Another Assessment
+                    </button>
                 </div>
             </div>
         );
@@ -232,6 +524,18 @@ export default function InterviewDashboard({ user }: { user: any }) {
 
     return (
         <div className={`fixed inset-0 bg-[var(--bg-primary)] ${isQuestionPage ? 'overflow-hidden' : 'overflow-y-auto'}`}>
+            {proctorMessage && (
+                <div className="fixed inset-0 z-[1000] bg-[var(--bg-primary)]/90 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-300">
+                    <div role="alertdialog" className="max-w-sm w-full p-10 bg-[var(--bg-secondary)] border border-indigo-500/10 shadow-2xl rounded-[1.5rem] text-center">
+                        <div className="w-12 h-12 rounded-xl bg-indigo-500/10 flex items-center justify-center text-indigo-500 mx-auto mb-6">
+                            <MessageSquare className="w-6 h-6" />
+                        </div>
+                        <h2 className="text-xl font-semibold mb-6 text-[var(--text-primary)] tracking-tight">Message from your Proctor</h2>
+                        <p className="p-4 mb-8 rounded-xl bg-[var(--bg-primary)] border border-[var(--border-primary)] text-[12px] font-medium text-[var(--text-primary)] leading-relaxed whitespace-pre-line">{proctorMessage.message}</p>
+                        <button onClick={dismissProctorMessage} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4 rounded-xl uppercase tracking-widest text-[11px] transition-all">Acknowledge</button>
+                    </div>
+                </div>
+            )}
             {showWarningPopup.show && (
                 <div className="fixed inset-0 z-[1000] bg-[var(--bg-primary)]/90 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-300">
                     <div className="max-w-sm w-full p-10 bg-[var(--bg-secondary)] border border-red-500/10 shadow-2xl rounded-[1.5rem] text-center">
@@ -243,7 +547,7 @@ export default function InterviewDashboard({ user }: { user: any }) {
                         <div className="flex items-center justify-center gap-2 mb-8">
                             <span className="text-[9px] uppercase tracking-widest font-bold text-slate-500">Counter:</span>
                             <div className="flex gap-1">
-                                {[1, 2, 3, 4, 5].map(v => (
+                                {Array.from({ length: Math.ceil(policy.maxScore) }, (_, i) => i + 1).map(v => (
                                     <div key={v} className={`w-1.5 h-1.5 rounded-full transition-all ${v <= proctoringWarnings ? 'bg-red-500' : 'bg-white/10'}`} />
                                 ))}
                             </div>
@@ -251,19 +555,24 @@ export default function InterviewDashboard({ user }: { user: any }) {
 
                         <div className="bg-[var(--bg-primary)]/50 rounded-xl p-6 border border-[var(--glass-border)] mb-8 text-left">
                             <p className="text-[11px] font-medium text-[var(--text-primary)] leading-relaxed tracking-tight">{showWarningPopup.message}</p>
+                            {isFlagged && (
+                                <p className="mt-3 text-[10px] font-bold uppercase tracking-widest text-amber-500">Session flagged for review</p>
+                            )}
                         </div>
 
                         <div className="flex flex-col gap-3">
                             <button
                                 onClick={async () => {
-                                    const success = await enterFullscreen();
+                                    const success = requiresScreenShare && !isScreenShared
+                                        ? await requestScreenShare()
+                                        : await enterFullscreen();
                                     if (success) {
                                         setShowWarningPopup({ show: false, message: '' });
                                     }
                                 }}
                                 className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4 rounded-xl uppercase tracking-widest text-[10px] transition-all"
                             >
-                                Restore Fullscreen
+                                {requiresScreenShare && !isScreenShared ? 'Share Entire Screen' : 'Restore Fullscreen'}
                             </button>
                             <button
                                 onClick={() => navigate('/')}
@@ -306,7 +615,7 @@ export default function InterviewDashboard({ user }: { user: any }) {
             {phase === 'live' && (
                 <>
                     {/* Security Protocol Gate */}
-                    {isAssessmentActive && !isSecured ? (
+                    {isAssessmentActive && !isEnvironmentReady ? (
                         <div className="fixed inset-0 z-[200] flex items-center justify-center bg-[var(--bg-primary)]/95 p-6 animate-in fade-in duration-500">
                             <div className="max-w-md w-full p-12 bg-[var(--bg-secondary)] border border-[var(--glass-border)] shadow-2xl rounded-[2rem] relative overflow-hidden">
                                 <div className="w-16 h-16 rounded-2xl bg-indigo-500/10 flex items-center justify-center text-indigo-500 mx-auto mb-8">
@@ -318,9 +627,12 @@ export default function InterviewDashboard({ user }: { user: any }) {
                                 <div className="text-left mb-10 space-y-4 px-8 py-8 bg-[var(--bg-primary)]/50 rounded-2xl border border-[var(--glass-border)]">
                                     {[
                                         "Persistent fullscreen presence is mandatory.",
+                                        ...(requiresScreenShare ? ["Your entire screen is shared with the proctor for the whole session."] : []),
                                         "Biometric monitoring is active.",
                                         "Environment scanning in progress.",
-                                        "5 violations will terminate the session."
+                                        policy.onLimitReached === 'terminate'
+                                            ? `${policy.maxScore} violations will terminate the session.`
+                                            : `${policy.maxScore} violations will flag the session for review.`
                                     ].map((text, i) => (
                                         <div key={i} className="flex items-start gap-3">
                                             <div className="w-1 h-1 rounded-full bg-indigo-500 mt-2 flex-shrink-0" />
@@ -329,23 +641,41 @@ export default function InterviewDashboard({ user }: { user: any }) {
                                     ))}
                                 </div>
 
-                                <button onClick={enterFullscreen} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4.5 rounded-xl uppercase tracking-widest text-[11px] transition-all">Enable Protection & Start</button>
+                                {screenShareError && (
+                                    <p role="alert" className="mb-4 text-[12px] font-medium text-red-500 text-center">{screenShareError}</p>
+                                )}
+                                {!isPolicyLoaded ? (
+                                    <button disabled className="w-full bg-indigo-600/50 text-white font-bold py-4.5 rounded-xl uppercase tracking-widest text-[11px] cursor-wait">Loading Proctoring Rules</button>
+                                ) : requiresScreenShare && !isScreenShared ? (
+                                    <button onClick={requestScreenShare} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4.5 rounded-xl uppercase tracking-widest text-[11px] transition-all">Share Entire Screen</button>
+                                ) : (
+                                    <button onClick={enterFullscreen} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4.5 rounded-xl uppercase tracking-widest text-[11px] transition-all">Enable Protection & Start</button>
+                                )}
                             </div>
                         </div>
                     ) : null}
 
                     {/* Primary Assessment Interface */}
-                    <AssessmentLayout remainingTime={remainingTime}>
+                    <AssessmentLayout
+                        sessionId={sessionId}
+                        assessmentDeadline={assessmentDeadline}
+                        questionDeadline={questionDeadline}
+                        isOffline={isOffline}
+                        pendingSubmissions={pendingSubmissions.length}
+                    >
                         <div className="animate-in fade-in slide-in-from-bottom-8 duration-1000">
                             <Outlet context={{ 
-                                user, 
+                                sessionId, 
                                 currentQuestion, 
                                 currentQuestionIndex, 
+                                assessmentDeadline,
+                                questionDeadline,
                                 fetchQuestion, 
                                 submitAnswer, 
                                 endSession, 
                                 isLoading, 
-                                error 
+                                error,
+                                pendingSubmissions
                             }} />
                         </div>
                     </AssessmentLayout>
@@ -353,6 +683,7 @@ export default function InterviewDashboard({ user }: { user: any }) {
                     {/* Draggable Proctoring Panel */}
                     <ProctoringPanel
                         stream={streamRef.current}
+                        screenStream={screenStream}
                         nodeRef={draggableRef}
                     />
                 </>
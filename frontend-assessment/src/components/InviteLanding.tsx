@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, Navigate } from 'react-router-dom';
+import { XCircle } from 'lucide-react';
+import Auth from './Auth';
+import { useAuth } from '../context/useAuth';
+import { invitationService, PENDING_INVITATION_KEY } from '../services/invitationService';
+import type { InvitationPreview } from '../types/invitation';
+
+type InviteState =
+    | { status: 'loading' }
+    | { status: 'ready'; preview: InvitationPreview }
+    | { status: 'error'; message: string };
+
+/**
+ * Invite Landing - opens an invitation link: signed-out visitors get a pre-filled sign-up form,
+ * signed-in candidates are bound to the invitation and sent straight to the assigned assessment
+ */
+export default function InviteLanding() {
+    const { token } = useParams();
+    const navigate = useNavigate();
+    const { user, invitation, acceptInvitation } = useAuth();
+    const [state, setState] = useState<InviteState>({ status: 'loading' });
+    const [acceptError, setAcceptError] = useState('');
+    const acceptedRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (!token) return;
+        let cancelled = false;
+        invitationService.preview(token)
+            .then(preview => {
+                // Survives the sign-up and email verification round trip; accepted on the next login
+                localStorage.setItem(PENDING_INVITATION_KEY, token);
+                if (!cancelled) setState({ status: 'ready', preview });
+            })
+            .catch(err => {
+                if (!cancelled) setState({ status: 'error', message: err instanceof Error ? err.message : 'Invitation not found' });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [token]);
+
+    // Logging in already accepts the pending token; this covers candidates who were signed in before opening the link
+    useEffect(() => {
+        if (!token || !user || user.role !== 'candidate' || invitation || state.status !== 'ready' || acceptedRef.current === token) return;
+        acceptedRef.current = token;
+        acceptInvitation(token).catch(err => {
+            localStorage.removeItem(PENDING_INVITATION_KEY);
+            setAcceptError(err instanceof Error ? err.message : 'Could not accept invitation');
+        });
+    }, [token, user, invitation, state.status, acceptInvitation]);
+
+    if (user && invitation) {
+        return <Navigate to="/" replace />;
+    }
+
+    const errorMessage = !token
+        ? 'This invitation link is missing its token.'
+        : state.status === 'error'
+            ? state.message
+            : user && user.role !== 'candidate'
+                ? 'Invitation links are for candidate accounts. Sign out and open the link again.'
+                : acceptError;
+
+    if (errorMessage) {
+        return (
+            <div className="fixed inset-0 h-screen w-full flex items-center justify-center p-4 bg-[var(--bg-primary)]">
+                <div className="auth-container p-6 md:p-7 animate-fade-in rounded-[2rem] bg-[var(--bg-secondary)] border border-[var(--glass-border)] shadow-2xl text-center">
+                    <div className="w-14 h-14 rounded-2xl flex items-center justify-center mx-auto mb-6 bg-red-500/10 text-red-500">
+                        <XCircle size={28} />
+                    </div>
+                    <h2 className="text-2xl font-semibold mb-2 tracking-tight text-[var(--text-primary)]">Invitation Unavailable</h2>
+                    <p className="text-sm text-[var(--text-secondary)] mb-8">{errorMessage}</p>
+                    <button onClick={() => navigate('/')} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-3 rounded-xl transition-all duration-300 text-[12px] uppercase tracking-widest">
+                        Continue
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (state.status === 'ready' && !user) {
+        return <Auth invitation={state.preview} />;
+    }
+
+    return (
+        <div className="min-h-screen w-full flex items-center justify-center bg-[var(--bg-primary)]">
+            <div className="w-12 h-12 border-4 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin" />
+        </div>
+    );
+}
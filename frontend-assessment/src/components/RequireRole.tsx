@@ -0,0 +1,23 @@
+import type { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../context/useAuth';
+import type { UserRole } from '../services/authService';
+
+interface RequireRoleProps {
+    roles: UserRole[];
+    children: ReactNode;
+}
+
+/**
+ * Renders its children only for signed-in users holding one of `roles`.
+ * Everyone else goes back to `/`, which routes each role to its own home.
+ */
+export default function RequireRole({ roles, children }: RequireRoleProps) {
+    const { user } = useAuth();
+
+    if (!user || !roles.includes(user.role)) {
+        return <Navigate to="/" replace />;
+    }
+
+    return <>{children}</>;
+}
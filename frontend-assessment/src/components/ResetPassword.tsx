@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { authService } from '../services/authService';
+import { validateForm } from '../services/authValidation';
+import { useLoading } from '../context/LoadingContext';
+
+const inputClass = "w-full pl-11 pr-4 py-2.5 rounded-xl outline-none transition-all duration-300 text-sm border bg-[var(--bg-primary)] border-[var(--glass-border)] text-[var(--text-primary)] focus:border-indigo-500/50 focus:ring-4 focus:ring-indigo-500/5";
+
+/**
+ * Reset Password - sets a new password from the single-use link in the reset email
+ */
+export default function ResetPassword() {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const token = searchParams.get('token');
+    const { showLoader, hideLoader } = useLoading();
+    const [password, setPassword] = useState('');
+    const [confirm, setConfirm] = useState('');
+    const [error, setError] = useState('');
+    const [successMsg, setSuccessMsg] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token) return;
+        const { password: passwordError } = validateForm('resetPassword', { password });
+        if (passwordError) {
+            setError(passwordError);
+            return;
+        }
+        if (password !== confirm) {
+            setError('Passwords do not match.');
+            return;
+        }
+
+        showLoader();
+        setError('');
+        try {
+            const res = await authService.resetPassword(token, password);
+            setSuccessMsg(res.message);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Password reset failed');
+        } finally {
+            hideLoader();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 h-screen w-full flex items-center justify-center p-4 bg-[var(--bg-primary)]">
+            <div className="auth-container p-6 md:p-7 animate-fade-in rounded-[2rem] bg-[var(--bg-secondary)] border border-[var(--glass-border)] shadow-2xl">
+                <div className="text-center mb-6">
+                    <h2 className="text-3xl font-semibold mb-2 tracking-tight text-[var(--text-primary)]">Choose a New Password</h2>
+                    <p className="text-sm font-normal leading-relaxed max-w-[300px] mx-auto text-[var(--text-secondary)]">
+                        {token ? 'Your other sessions will be signed out.' : 'This reset link is missing its token.'}
+                    </p>
+                </div>
+
+                {token && !successMsg && (
+                    <form onSubmit={handleSubmit} className="space-y-3">
+                        {[
+                            { name: 'password', value: password, onChange: setPassword, placeholder: 'New Password' },
+                            { name: 'confirm', value: confirm, onChange: setConfirm, placeholder: 'Confirm New Password' },
+                        ].map(field => (
+                            <div key={field.name} className="relative group">
+                                <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 transition-colors text-slate-500 group-focus-within:text-indigo-500" />
+                                <input
+                                    type="password"
+                                    name={field.name}
+                                    required
+                                    placeholder={field.placeholder}
+                                    value={field.value}
+                                    onChange={(e) => {
+                                        field.onChange(e.target.value);
+                                        setError('');
+                                    }}
+                                    className={inputClass}
+                                />
+                            </div>
+                        ))}
+                        <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-3 rounded-xl transition-all duration-300 active:scale-[0.98] shadow-lg shadow-indigo-600/20 mt-3 text-[12px] uppercase tracking-widest">
+                            Update password
+                        </button>
+                    </form>
+                )}
+
+                {error && (
+                    <div className="mt-6 p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+                        <p className="text-red-500 text-[11px] font-medium text-center">{error}</p>
+                    </div>
+                )}
+                {successMsg && (
+                    <div className="mt-6 p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/20">
+                        <p className="text-emerald-500 text-[11px] font-medium text-center">{successMsg}</p>
+                    </div>
+                )}
+
+                <div className="mt-6 text-center border-t border-[var(--glass-border)] pt-6">
+                    <button onClick={() => navigate('/')} className="text-sm font-medium text-indigo-500 hover:underline underline-offset-4">
+                        Back to Log in
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { authService } from '../services/authService';
+
+type VerifyState = { status: 'pending' } | { status: 'success' | 'error'; message: string };
+
+/**
+ * Verify Email - landing page for the link in the signup verification email
+ */
+export default function VerifyEmail() {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const token = searchParams.get('token');
+    const [state, setState] = useState<VerifyState>({ status: 'pending' });
+    const requestedRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        // Tokens are single-use, so never submit the same one twice (e.g. StrictMode re-running effects)
+        if (!token || requestedRef.current === token) return;
+        requestedRef.current = token;
+
+        authService.verifyEmail(token)
+            .then(res => setState({ status: 'success', message: res.message }))
+            .catch(err => setState({ status: 'error', message: err instanceof Error ? err.message : 'Verification failed' }));
+    }, [token]);
+
+    const current: VerifyState = token ? state : { status: 'error', message: 'This verification link is missing its token.' };
+
+    return (
+        <div className="fixed inset-0 h-screen w-full flex items-center justify-center p-4 bg-[var(--bg-primary)]">
+            <div className="auth-container p-6 md:p-7 animate-fade-in rounded-[2rem] bg-[var(--bg-secondary)] border border-[var(--glass-border)] shadow-2xl text-center">
+                {current.status === 'pending' ? (
+                    <>
+                        <div className="w-12 h-12 border-4 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin mx-auto mb-6" />
+                        <p className="text-sm text-[var(--text-secondary)]">Verifying your email...</p>
+                    </>
+                ) : (
+                    <>
+                        <div className={`w-14 h-14 rounded-2xl flex items-center justify-center mx-auto mb-6 ${current.status === 'success' ? 'bg-emerald-500/10 text-emerald-500' : 'bg-red-500/10 text-red-500'}`}>
+                            {current.status === 'success' ? <CheckCircle2 size={28} /> : <XCircle size={28} />}
+                        </div>
+                        <h2 className="text-2xl font-semibold mb-2 tracking-tight text-[var(--text-primary)]">
+                            {current.status === 'success' ? 'Email Verified' : 'Verification Failed'}
+                        </h2>
+                        <p className="text-sm text-[var(--text-secondary)] mb-8">{current.message}</p>
+                        <button onClick={() => navigate('/')} className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-3 rounded-xl transition-all duration-300 text-[12px] uppercase tracking-widest">
+                            Go to Log in
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { authService } from '../services/authService';
+import type { User } from '../services/authService';
+import { sessionService } from '../services/sessionService';
+import { invitationService, PENDING_INVITATION_KEY } from '../services/invitationService';
+import type { Invitation } from '../types/invitation';
+import { AuthContext } from './useAuth';
+
+const instructionsKey = (userId: number) => `instructions_seen_${userId}`;
+
+/**
+ * Finds the question route of a session left active by a previous page load
+ */
+const restoreResumePath = async (): Promise<string | null> => {
+    const sessionId = localStorage.getItem('assessment_session_id');
+    if (!sessionId) return null;
+    try {
+        const status = await sessionService.getStatus(sessionId);
+        if (status.status === 'active') {
+            return `/assessment/question/${status.domain}/${status.currentQuestionIndex + 1}`;
+        }
+    } catch (err) {
+        console.error('[Auth] Could not restore assessment session:', err);
+    }
+    localStorage.removeItem('assessment_session_id');
+    return null;
+};
+
+/**
+ * Accepts an invitation link opened before signing in, then finds the candidate's open invitation
+ */
+const restoreInvitation = async (): Promise<Invitation | null> => {
+    const pendingToken = localStorage.getItem(PENDING_INVITATION_KEY);
+    if (pendingToken) {
+        localStorage.removeItem(PENDING_INVITATION_KEY);
+        try {
+            return await invitationService.accept(pendingToken);
+        } catch (err) {
+            console.error('[Auth] Could not accept pending invitation:', err);
+        }
+    }
+    try {
+        return await invitationService.getActive();
+    } catch (err) {
+        console.error('[Auth] Could not load invitation:', err);
+        return null;
+    }
+};
+
+/**
+ * Candidate-only state restored alongside the user: the session to resume and any open invitation
+ */
+const restoreCandidateState = async (user: User) => {
+    if (user.role !== 'candidate') return { activeSessionPath: null, activeInvitation: null };
+    const [activeSessionPath, activeInvitation] = await Promise.all([restoreResumePath(), restoreInvitation()]);
+    return { activeSessionPath, activeInvitation };
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [user, setUser] = useState<User | null>(null);
+    const [isRestoring, setIsRestoring] = useState(() => !!authService.getToken());
+    const [hasSeenInstructions, setHasSeenInstructions] = useState(false);
+    const [resumePath, setResumePath] = useState<string | null>(null);
+    const [invitation, setInvitation] = useState<Invitation | null>(null);
+
+    const applyUser = useCallback((nextUser: User, activeSessionPath: string | null, activeInvitation: Invitation | null) => {
+        setUser(nextUser);
+        setResumePath(activeSessionPath);
+        setInvitation(activeInvitation);
+        // An assessment in progress means the instructions were already acknowledged
+        setHasSeenInstructions(!!activeSessionPath || localStorage.getItem(instructionsKey(nextUser.id)) === 'true');
+    }, []);
+
+    // Bootstrap from the stored token; authService refreshes it if it has expired
+    useEffect(() => {
+        if (!authService.getToken()) return;
+        let cancelled = false;
+
+        const restore = async () => {
+            try {
+                const restoredUser = await authService.getMe();
+                const { activeSessionPath, activeInvitation } = await restoreCandidateState(restoredUser);
+                if (!cancelled) applyUser(restoredUser, activeSessionPath, activeInvitation);
+            } catch (err) {
+                console.error('[Auth] Session restore failed:', err);
+            } finally {
+                if (!cancelled) setIsRestoring(false);
+            }
+        };
+        restore();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [applyUser]);
+
+    const login = useCallback(async (email: string, password: string) => {
+        const { user: loggedInUser } = await authService.login(email, password);
+        const { activeSessionPath, activeInvitation } = await restoreCandidateState(loggedInUser);
+        applyUser(loggedInUser, activeSessionPath, activeInvitation);
+        return loggedInUser;
+    }, [applyUser]);
+
+    const logout = useCallback(async () => {
+        await authService.logout();
+        setUser(null);
+        setResumePath(null);
+        setInvitation(null);
+        setHasSeenInstructions(false);
+    }, []);
+
+    const markInstructionsSeen = useCallback(() => {
+        if (user) localStorage.setItem(instructionsKey(user.id), 'true');
+        setHasSeenInstructions(true);
+    }, [user]);
+
+    const acceptInvitation = useCallback(async (token: string) => {
+        const accepted = await invitationService.accept(token);
+        localStorage.removeItem(PENDING_INVITATION_KEY);
+        setInvitation(accepted);
+        return accepted;
+    }, []);
+
+    // Called once the invited session has started; the link cannot be used again after this
+    const completeInvitation = useCallback(() => {
+        setInvitation(null);
+    }, []);
+
+    return (
+        <AuthContext.Provider value={{
+            user, isRestoring, hasSeenInstructions, resumePath, invitation,
+            login, logout, markInstructionsSeen, acceptInvitation, completeInvitation,
+        }}>
+            {children}
+        </AuthContext.Provider>
+    );
+};
@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import type { User } from '../services/authService';
+import type { Invitation } from '../types/invitation';
+
+interface AuthContextType {
+    user: User | null;
+    isRestoring: boolean;
+    hasSeenInstructions: boolean;
+    resumePath: string | null; // In-progress question to return to after a reload
+    invitation: Invitation | null; // Accepted invitation whose assessment has not started yet
+    login: (email: string, password: string) => Promise<User>;
+    logout: () => Promise<void>;
+    markInstructionsSeen: () => void;
+    acceptInvitation: (token: string) => Promise<Invitation>;
+    completeInvitation: () => void; // The session backend marks the invitation used when the session starts
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+    const context = useContext(AuthContext);
+    if (!context) {
+        throw new Error('useAuth must be used within an AuthProvider');
+    }
+    return context;
+};
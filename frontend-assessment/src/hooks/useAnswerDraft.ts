@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { sessionService } from '../services/sessionService';
+import { draftStore } from '../services/draftStore';
+import { emptyAnswer } from '../assessment/answers';
+import type { Question, AnswerPayload, AnswerDraft } from '../types/session';
+
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+interface DraftState {
+    questionId: string | null;
+    answer: AnswerPayload | null;
+}
+
+const newest = (a: AnswerDraft | null, b: AnswerDraft | null) => {
+    if (!a || !b) return a ?? b;
+    return new Date(a.savedAt) >= new Date(b.savedAt) ? a : b;
+};
+
+/**
+ * Holds the in-progress answer for the current question and autosaves it
+ * to IndexedDB and the session draft endpoint. When the question (re)loads,
+ * the newest of the local and server drafts is restored.
+ */
+export const useAnswerDraft = (sessionId: string | null, question: Question | null) => {
+    const [draft, setDraft] = useState<DraftState>({ questionId: null, answer: null });
+    const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+    const dirtyRef = useRef(false);
+    const draftRef = useRef(draft);
+
+    useEffect(() => {
+        draftRef.current = draft;
+    }, [draft]);
+
+    const questionId = question?.questionId ?? null;
+
+    // Draft is tied to the question it was typed for, so a new question starts from a blank payload of its own kind
+    const answer = question
+        ? (draft.questionId === questionId && draft.answer ? draft.answer : emptyAnswer(question))
+        : null;
+
+    const setAnswer = useCallback((next: AnswerPayload) => {
+        dirtyRef.current = true;
+        setDraft({ questionId, answer: next });
+    }, [questionId]);
+
+    // Restore once per question; anything typed meanwhile wins over the stored copy
+    useEffect(() => {
+        if (!sessionId || !questionId) return;
+        let cancelled = false;
+
+        Promise.all([
+            draftStore.get(sessionId, questionId).catch(() => null),
+            sessionService.getDraft(sessionId).catch(() => null),
+        ]).then(([local, remote]) => {
+            const restored = newest(local, remote?.questionId === questionId ? remote : null);
+            if (cancelled || !restored || draftRef.current.questionId === questionId) return;
+            setDraft({ questionId, answer: restored.answer });
+            setLastSavedAt(new Date(restored.savedAt).getTime());
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId, questionId]);
+
+    const save = useCallback(async () => {
+        const current = draftRef.current;
+        if (!dirtyRef.current || !sessionId || !current.questionId || !current.answer) return;
+        dirtyRef.current = false;
+
+        const savedAt = new Date().toISOString();
+        try {
+            await draftStore.put({ sessionId, questionId: current.questionId, answer: current.answer, savedAt });
+        } catch (err) {
+            console.error('[Draft] Local save failed:', err);
+        }
+        setLastSavedAt(Date.parse(savedAt));
+
+        // The server copy is best effort; the local copy already covers a reload
+        sessionService.saveDraft(sessionId, current.questionId, current.answer)
+            .catch(err => console.error('[Draft] Server save failed:', err));
+    }, [sessionId]);
+
+    useEffect(() => {
+        const interval = setInterval(save, AUTOSAVE_INTERVAL_MS);
+        const handleHide = () => {
+            if (document.visibilityState === 'hidden') save();
+        };
+        document.addEventListener('visibilitychange', handleHide);
+        window.addEventListener('pagehide', save);
+        return () => {
+            clearInterval(interval);
+            document.removeEventListener('visibilitychange', handleHide);
+            window.removeEventListener('pagehide', save);
+        };
+    }, [save]);
+
+    /**
+     * Discard the draft after its answer was submitted (the server drops its copy on submit).
+     */
+    const discardDraft = useCallback(async (submittedQuestionId: string) => {
+        dirtyRef.current = false;
+        setDraft({ questionId: null, answer: null });
+        setLastSavedAt(null);
+        if (sessionId) {
+            await draftStore.remove(sessionId, submittedQuestionId).catch(() => {});
+        }
+    }, [sessionId]);
+
+    return { answer, setAnswer, lastSavedAt, discardDraft };
+};
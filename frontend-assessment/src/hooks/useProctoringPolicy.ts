@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { proctoringService, DEFAULT_PROCTORING_POLICY } from '../services/proctoringService';
+import type { ProctoringPolicy } from '../types/proctoring';
+
+/**
+ * Loads the proctoring policy for the active domain/assessment.
+ * Falls back to the default policy so proctoring is never left unconfigured;
+ * `isLoaded` stays false until the policy for the current scope has resolved.
+ */
+export const useProctoringPolicy = (domain?: string, assessmentId?: string) => {
+    const scope = `${domain ?? ''}|${assessmentId ?? ''}`;
+    const [loaded, setLoaded] = useState<{ scope: string; policy: ProctoringPolicy } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        proctoringService.getPolicy({ domain, assessmentId })
+            .then(policy => {
+                if (!cancelled) setLoaded({ scope, policy });
+            })
+            .catch(err => {
+                console.error('[Proctoring] Policy load failed, using default:', err);
+                if (!cancelled) setLoaded({ scope, policy: DEFAULT_PROCTORING_POLICY });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [scope, domain, assessmentId]);
+
+    const isLoaded = loaded?.scope === scope;
+    return { policy: isLoaded ? loaded.policy : DEFAULT_PROCTORING_POLICY, isLoaded };
+};
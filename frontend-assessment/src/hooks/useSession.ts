@@ -1,37 +1,121 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { sessionService } from '../services/sessionService';
-import type { Question } from '../types/session';
+import { draftStore } from '../services/draftStore';
+import { submissionOutbox } from '../services/submissionOutbox';
+import { useSessionChannel } from './useSessionChannel';
+import { useSessionLease } from './useSessionLease';
+import { sessionLease } from '../services/sessionLease';
+import type { QueuedSubmission } from '../services/submissionOutbox';
+import {
+    toApiError, AttemptBlockedError, SessionCompletedError, NotFoundError, NetworkError, SessionConflictError, SubmissionRejectedError
+} from '../services/apiErrors';
+import type { ApiError } from '../services/apiErrors';
+import type {
+    Question, AnswerPayload, SessionResponse, SubmitAnswerRequest, TerminationReason, AttemptBlock,
+    SessionTick, SessionChannelEvent, ProctorMessage, RejectedSubmission
+} from '../types/session';
 
 import { useLoading } from '../context/LoadingContext';
 
-const formatError = (err: any): string => {
-    const detail = err.response?.data?.detail;
-    if (detail) {
-        if (Array.isArray(detail)) {
-            return detail.map((e: any) => `${e.loc?.join('.') || 'error'}: ${e.msg || 'ValidationError'}`).join(' | ');
-        }
-        if (typeof detail === 'string') return detail;
-        return JSON.stringify(detail);
-    }
-    return err.message || 'An unknown error occurred';
-};
+// How often the deadlines are reconciled with the server while the realtime channel is down
+const STATUS_RECONCILE_INTERVAL_MS = 30000;
+// How often queued answers are retried while the browser reports a connection but the API is unreachable
+const OUTBOX_RETRY_INTERVAL_MS = 5000;
+
+const TERMINAL_STATUSES = ['completed', 'terminated', 'timeout'];
+
+// Deadline as a local timestamp; anchoring to Date.now() sidesteps client/server clock skew
+const deadlineFrom = (remainingSeconds: number) => Date.now() + remainingSeconds * 1000;
 
 export const useSession = (candidateId?: string) => {
     const [sessionId, setSessionId] = useState<string | null>(() => localStorage.getItem('assessment_session_id'));
     const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState<number>(1);
-    const [remainingTime, setRemainingTime] = useState<number | null>(null);
+    const [assessmentDeadline, setAssessmentDeadline] = useState<number | null>(null); // Epoch ms
+    const [questionDeadline, setQuestionDeadline] = useState<number | null>(null); // Epoch ms; null when questions are uncapped
+    const [sessionDomain, setSessionDomain] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const { showLoader, hideLoader, isLoading } = useLoading();
     const isFetchingRef = useRef(false); // Real React ref persisting across renders
     const [isCompleted, setIsCompleted] = useState<boolean>(false);
+    const [isTerminated, setIsTerminated] = useState<boolean>(false);
+    const [isTimedOut, setIsTimedOut] = useState<boolean>(false);
+    const [attemptBlock, setAttemptBlock] = useState<AttemptBlock | null>(null);
+    // One key per question, reused when a failed submission is retried so the server records it only once
+    const submissionKeyRef = useRef<{ questionId: string; key: string } | null>(null);
+    // Answers submitted while offline, replayed in order once the API is reachable again
+    const [pendingSubmissions, setPendingSubmissions] = useState<QueuedSubmission[]>(() => sessionId ? submissionOutbox.list(sessionId) : []);
+    const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
+    const [isUnreachable, setIsUnreachable] = useState<boolean>(false); // Online, but the last request got no response
+    const isFlushingRef = useRef(false);
+    const [proctorMessage, setProctorMessage] = useState<ProctorMessage | null>(null);
+    const [rejectedSubmissions, setRejectedSubmissions] = useState<RejectedSubmission[]>([]);
+
+    /**
+     * Reflect a server-side terminal status locally so a reload cannot resume it
+     */
+    const applyTerminalStatus = useCallback((status: string | undefined) => {
+        if (status === 'terminated') {
+            setIsTerminated(true);
+        } else if (status === 'timeout') {
+            setIsTimedOut(true);
+        } else {
+            setIsCompleted(true);
+        }
+        localStorage.removeItem('assessment_session_id');
+    }, []);
+
+    /**
+     * Anchor both time budgets to the local clock from a status snapshot or tick
+     */
+    const applyDeadlines = useCallback((status: SessionTick) => {
+        const assessmentRemaining = status.assessmentRemainingSeconds ?? status.remainingTimeSeconds;
+        if (assessmentRemaining !== undefined) {
+            setAssessmentDeadline(deadlineFrom(assessmentRemaining));
+        }
+        setQuestionDeadline(status.questionRemainingSeconds != null ? deadlineFrom(status.questionRemainingSeconds) : null);
+    }, []);
+
+    /**
+     * Apply an event pushed by the server. Completion is left to the submit flow, which already knows about it.
+     */
+    const handleChannelEvent = (event: SessionChannelEvent) => {
+        switch (event.type) {
+            case 'status':
+                applyDeadlines(event.data);
+                setSessionDomain(event.data.domain);
+                if (event.data.status === 'terminated' || event.data.status === 'timeout') {
+                    applyTerminalStatus(event.data.status);
+                }
+                break;
+            case 'tick':
+                applyDeadlines(event.data);
+                break;
+            case 'terminated':
+                console.log(`[Session] Terminated by the server:`, event.data.reason);
+                applyTerminalStatus('terminated');
+                break;
+            case 'message':
+                setProctorMessage(event.data);
+                break;
+            case 'extra_time':
+                // The new deadlines arrive with the status event that follows the grant
+                console.log(`[Session] Extra time granted: ${event.data.seconds}s`);
+                break;
+        }
+    };
+
+    const isSessionOver = isCompleted || isTerminated || isTimedOut;
+    const channelState = useSessionChannel(isSessionOver ? null : sessionId, handleChannelEvent);
+    const isChannelLive = channelState === 'live';
+    const { leaseState, takeOver, revoke, release } = useSessionLease(sessionId, !!candidateId && !isSessionOver);
 
     /**
-     * Start a new assessment session
+     * Start a new assessment session for the selected domain
      */
-    const startSession = useCallback(async (candId: string) => {
-        if (isCompleted) {
-            console.log("[Session] Assessment already completed. Blocking session creation.");
+    const startSession = useCallback(async (domain: string, assessmentTemplateId?: string) => {
+        if (isCompleted || isTerminated || isTimedOut || attemptBlock) {
+            console.log("[Session] Assessment already completed or terminated. Blocking session creation.");
             return;
         }
         if (sessionId) {
@@ -42,32 +126,46 @@ export const useSession = (candidateId?: string) => {
         setError(null);
         localStorage.removeItem('assessment_session_id'); // Defensive clear before start
         try {
-            console.log(`[Session] Attempting to start session for candidate: ${candId}`);
-            const response = await sessionService.startSession(candId);
+            console.log(`[Session] Attempting to start ${domain} session for candidate: ${candidateId}`);
+            const response = await sessionService.startSession({ domain, assessmentTemplateId });
             console.log(`[Session] Start Response:`, response);
             if (response && response.sessionId) {
                  setSessionId(response.sessionId);
                  console.log(`[Session] Stored SessionID in state: ${response.sessionId}`);
                  localStorage.setItem('assessment_session_id', response.sessionId);
+                 setSessionDomain(response.domain || domain);
                  
                  const status = await sessionService.getStatus(response.sessionId);
-                 if (status.remainingTimeSeconds !== undefined) {
-                     setRemainingTime(status.remainingTimeSeconds);
-                 }
+                 applyDeadlines(status);
             }
             setCurrentQuestionIndex(response.currentQuestionIndex !== undefined ? response.currentQuestionIndex + 1 : 1);
             return response;
-        } catch (err: any) {
-            const errMsg = formatError(err);
-            setError(errMsg);
-            console.error(`[Session] Start Failed:`, err);
-            throw new Error(errMsg);
+        } catch (err) {
+            const apiError = toApiError(err);
+            if (apiError instanceof AttemptBlockedError) {
+                // The retake policy refused this attempt; shown as its own state rather than an error
+                setAttemptBlock({
+                    code: apiError.code,
+                    message: apiError.message,
+                    retryAt: apiError.retryAfterSeconds > 0 ? deadlineFrom(apiError.retryAfterSeconds) : null,
+                });
+            } else if (apiError instanceof SessionConflictError && apiError.sessionId) {
+                // Another tab or device is running this account's session; adopt it so the lease flow can offer a takeover
+                setSessionId(apiError.sessionId);
+                localStorage.setItem('assessment_session_id', apiError.sessionId);
+                setSessionDomain(apiError.domain);
+                return;
+            } else {
+                setError(apiError.message);
+            }
+            console.error(`[Session] Start Failed:`, apiError);
+            throw apiError;
         } finally {
             hideLoader();
             if (typeof isFetchingRef !== 'undefined') isFetchingRef.current = false;
             isFetchingRef.current = false;
         }
-    }, [showLoader, hideLoader, sessionId, isCompleted]);
+    }, [showLoader, hideLoader, sessionId, candidateId, isCompleted, isTerminated, isTimedOut, attemptBlock, applyDeadlines]);
 
     /**
      * Fetches session overall status containing remaining time
@@ -78,24 +176,26 @@ export const useSession = (candidateId?: string) => {
         console.log(`[API] fetchStatus calling with SessionID: ${sessionId}`);
         try {
             const status = await sessionService.getStatus(sessionId);
-            if (status.remainingTimeSeconds !== undefined) {
-                setRemainingTime(status.remainingTimeSeconds);
+            applyDeadlines(status);
+            setSessionDomain(status.domain);
+            if (status.status === 'terminated' || status.status === 'timeout') {
+                applyTerminalStatus(status.status);
             }
             isFetchingRef.current = false;
             return status;
-        } catch (err: any) {
+        } catch (err) {
              console.error(`[Session] Fetch status failed:`, err);
-             if (err.response?.status === 403) {
+             if (err instanceof SessionCompletedError) {
                  console.log(`[Session] Assessment Completed!`);
                  setIsCompleted(true);
                  localStorage.removeItem('assessment_session_id');
-             } else if (err.response?.status === 404) {
+             } else if (err instanceof NotFoundError) {
                  setSessionId(null);
                  localStorage.removeItem('assessment_session_id');
              }
              isFetchingRef.current = false;
         }
-    }, [sessionId]);
+    }, [sessionId, applyTerminalStatus, applyDeadlines]);
 
     /**
      * Fetches current question allocated for session
@@ -111,86 +211,281 @@ export const useSession = (candidateId?: string) => {
             const question = await sessionService.getQuestion(sessionId);
             console.log(`[Session] Question Fetched:`, question);
             setCurrentQuestion(question);
-            await fetchStatus(); // Sequential status call
             isFetchingRef.current = false;
+            if (!isChannelLive) await fetchStatus(); // Sequential status call; the live channel pushes it instead
             return question;
-        } catch (err: any) {
-            const errMsg = formatError(err);
-            setError(errMsg);
-            console.error(`[Session] Fetch question failed:`, err);
-            if (err.response?.status === 403) {
-                 setIsCompleted(true);
-                 localStorage.removeItem('assessment_session_id');
-             } else if (err.response?.status === 404) {
+        } catch (err) {
+            const apiError = toApiError(err);
+            setError(apiError.message);
+            console.error(`[Session] Fetch question failed:`, apiError);
+            if (apiError instanceof SessionCompletedError) {
+                 // Completion, termination and timeout all refuse further questions; the status tells them apart
+                 const status = await sessionService.getStatus(sessionId).catch(() => null);
+                 applyTerminalStatus(status?.status);
+             } else if (apiError instanceof NotFoundError) {
                  setSessionId(null);
                  localStorage.removeItem('assessment_session_id');
             }
         } finally {
             hideLoader();
         }
-    }, [sessionId, showLoader, hideLoader]);
+    }, [sessionId, isChannelLive, showLoader, hideLoader, applyTerminalStatus]);
+
+    /**
+     * Advance past an accepted submission
+     */
+    const applySubmissionResponse = useCallback(async (response: SessionResponse) => {
+        setCurrentQuestionIndex(prev => response.currentQuestionIndex !== undefined ? response.currentQuestionIndex + 1 : prev + 1);
+        setCurrentQuestion(null);
+        if (response.status === 'timeout') {
+            applyTerminalStatus(response.status);
+        } else if (!isChannelLive) {
+            await fetchStatus();
+        }
+    }, [isChannelLive, fetchStatus, applyTerminalStatus]);
+
+    /**
+     * Record an answer the server refused so the candidate is told it did not count,
+     * and adopt the session's ending if that is why it was refused
+     */
+    const rejectSubmission = useCallback((questionId: string, apiError: ApiError) => {
+        setRejectedSubmissions(prev => [...prev, { questionId, message: apiError.message }]);
+        setError(apiError.message);
+        if (apiError instanceof SubmissionRejectedError && TERMINAL_STATUSES.includes(apiError.sessionStatus)) {
+            applyTerminalStatus(apiError.sessionStatus);
+        }
+    }, [applyTerminalStatus]);
 
     /**
-     * Submit answer for the current question
+     * Park a submission in the outbox until the API is reachable again
      */
-    const submitAnswer = useCallback(async (answerText: string) => {
+    const queueSubmission = useCallback((submission: QueuedSubmission) => {
+        submissionOutbox.enqueue(submission);
+        setPendingSubmissions(submissionOutbox.list(submission.sessionId));
+        console.log(`[Session] Offline; queued answer for question ${submission.questionId}`);
+    }, []);
+
+    /**
+     * Submit answer for the current question (null skips it).
+     * Resolves without a response when the answer was queued offline instead.
+     */
+    const submitAnswer = useCallback(async (answer: AnswerPayload | null) => {
         if (!sessionId || !candidateId) {
             console.error(`[Session] submitAnswer blocked: sessionId=${sessionId}`);
             setError('Missing Session ID');
             return;
         }
+        const questionId = currentQuestion?.questionId ?? `index-${currentQuestionIndex}`;
+        if (pendingSubmissions.some(item => item.questionId === questionId)) return; // Already queued
+        if (submissionKeyRef.current?.questionId !== questionId) {
+            submissionKeyRef.current = { questionId, key: crypto.randomUUID() };
+        }
+        const request: SubmitAnswerRequest = answer ? { answer } : { skipped: true };
+        const submission: QueuedSubmission = {
+            idempotencyKey: submissionKeyRef.current.key, sessionId, questionId, request, contactReceipt: sessionLease.getReceipt(),
+        };
+        if (!navigator.onLine) {
+            queueSubmission(submission);
+            return;
+        }
         showLoader();
         setError(null);
         try {
-            const response = await sessionService.submitAnswer(sessionId, {
-                candidateId: String(candidateId || "test-user"),
-                answerText: answerText || "[Fallback Answer]",
-            });
-            setCurrentQuestionIndex(prev => response.currentQuestionIndex !== undefined ? response.currentQuestionIndex + 1 : prev + 1);
-            setCurrentQuestion(null);
-            await fetchStatus();
+            const response = await sessionService.submitAnswer(sessionId, request, submission.idempotencyKey);
+            setIsUnreachable(false);
+            await applySubmissionResponse(response);
             return response;
-        } catch (err: any) {
-            const errMsg = formatError(err);
-            setError(errMsg);
-            throw new Error(errMsg);
+        } catch (err) {
+            const apiError = toApiError(err);
+            if (apiError instanceof NetworkError) {
+                // Retries are exhausted; keep the answer and the draft rather than failing the question
+                setIsUnreachable(true);
+                queueSubmission(submission);
+                return;
+            }
+            if (apiError instanceof SessionConflictError) {
+                revoke(); // Taken over elsewhere; the dashboard shows the takeover screen instead of an error
+                return;
+            }
+            if (apiError instanceof SubmissionRejectedError) {
+                rejectSubmission(questionId, apiError);
+                return;
+            }
+            setError(apiError.message);
+            throw apiError;
         } finally {
             hideLoader();
         }
-    }, [sessionId, candidateId, showLoader, hideLoader, fetchStatus]);
+    }, [sessionId, candidateId, currentQuestion, currentQuestionIndex, pendingSubmissions, showLoader, hideLoader, applySubmissionResponse, queueSubmission, rejectSubmission, revoke]);
+
+    /**
+     * Replay queued answers in order with their original idempotency keys.
+     * Stops at the first network failure so later answers never overtake earlier ones.
+     */
+    const flushSubmissions = useCallback(async () => {
+        if (!sessionId || isFlushingRef.current) return;
+        isFlushingRef.current = true;
+        try {
+            for (const submission of submissionOutbox.list(sessionId)) {
+                try {
+                    const response = await sessionService.submitAnswer(
+                        sessionId, submission.request, submission.idempotencyKey, submission.contactReceipt
+                    );
+                    // Only an accepted answer leaves the outbox as a success
+                    if (response.accepted === false) throw new SubmissionRejectedError(response.message, response.status);
+                    submissionOutbox.remove(submission.idempotencyKey);
+                    draftStore.remove(sessionId, submission.questionId).catch(err => console.error('[Session] Draft cleanup failed:', err));
+                    setIsUnreachable(false);
+                    await applySubmissionResponse(response);
+                } catch (err) {
+                    const apiError = toApiError(err);
+                    if (apiError instanceof NetworkError) {
+                        setIsUnreachable(true);
+                        return;
+                    }
+                    if (apiError instanceof SessionConflictError) {
+                        revoke(); // Kept queued in case this client takes the session back
+                        return;
+                    }
+                    // Refused outright (e.g. queued past the grace window); drop it so it cannot block the rest
+                    submissionOutbox.remove(submission.idempotencyKey);
+                    rejectSubmission(submission.questionId, apiError);
+                }
+            }
+        } finally {
+            isFlushingRef.current = false;
+            setPendingSubmissions(submissionOutbox.list(sessionId));
+        }
+    }, [sessionId, applySubmissionResponse, rejectSubmission, revoke]);
+
+    /**
+     * Terminate the session server-side (e.g. proctoring limit reached)
+     */
+    const terminateSession = useCallback(async (reason: TerminationReason, riskScore?: number) => {
+        if (!sessionId) return;
+        setIsTerminated(true);
+        localStorage.removeItem('assessment_session_id');
+        try {
+            const response = await sessionService.terminateSession(sessionId, reason, riskScore);
+            console.log(`[Session] Terminated:`, response);
+            return response;
+        } catch (err) {
+            console.error(`[Session] Terminate failed:`, err);
+        }
+    }, [sessionId]);
+
+    /**
+     * Flag the session for review server-side (proctoring limit reached under a 'flag' policy)
+     */
+    const flagSession = useCallback(async (riskScore: number) => {
+        if (!sessionId) return;
+        try {
+            return await sessionService.flagSession(sessionId, riskScore);
+        } catch (err) {
+            console.error(`[Session] Flag failed:`, err);
+        }
+    }, [sessionId]);
 
     /**
      * Clear session locally (Complete or Terminated)
      */
     const endSession = useCallback(() => {
+        if (sessionId) {
+            draftStore.clearSession(sessionId).catch(err => console.error('[Session] Draft cleanup failed:', err));
+            submissionOutbox.clearSession(sessionId);
+            release();
+        }
+        setPendingSubmissions([]);
         setSessionId(null);
         setCurrentQuestion(null);
         setCurrentQuestionIndex(1);
-        setRemainingTime(null);
+        setAssessmentDeadline(null);
+        setQuestionDeadline(null);
+        setSessionDomain(null);
+        setAttemptBlock(null);
+        setProctorMessage(null);
+        setRejectedSubmissions([]);
         localStorage.removeItem('assessment_session_id');
-    }, []);
+    }, [sessionId, release]);
 
     // Auto-start removed to allow explicit button triggers
 
-    // Automatically fetch question once sessionId becomes available
+    const hasPendingSubmissions = pendingSubmissions.length > 0;
+
+    const holdsLease = leaseState === 'held';
+
+    // Automatically fetch question once sessionId becomes available and this client holds its lease;
+    // while answers are queued the server is still on an earlier question, so wait for the outbox to drain
     useEffect(() => {
-        if (sessionId && !currentQuestion && !isLoading && !error && !isCompleted) {
+        if (sessionId && holdsLease && !currentQuestion && !hasPendingSubmissions && !isLoading && !error && !isCompleted && !isTerminated && !isTimedOut) {
             fetchQuestion();
         }
-    }, [sessionId, currentQuestion, fetchQuestion, fetchStatus, isLoading, error, isCompleted]);
+    }, [sessionId, holdsLease, currentQuestion, hasPendingSubmissions, fetchQuestion, fetchStatus, isLoading, error, isCompleted, isTerminated, isTimedOut]);
+
+    // Track the browser's connectivity
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    // Drain the outbox as soon as the connection returns, then keep retrying until it is empty.
+    // A session that ended meanwhile (e.g. timed out on reconnect) still gets its queued answers,
+    // which the server accepts if they were made before the deadline
+    useEffect(() => {
+        if (!isOnline || !hasPendingSubmissions || !(holdsLease || isSessionOver)) return;
+        flushSubmissions();
+        const interval = setInterval(flushSubmissions, OUTBOX_RETRY_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [isOnline, hasPendingSubmissions, holdsLease, isSessionOver, flushSubmissions]);
+
+    // Fallback while the realtime channel is down: reconcile the deadlines periodically and
+    // whenever the tab becomes visible again, since background tabs throttle timers
+    useEffect(() => {
+        if (!sessionId || isSessionOver || isChannelLive || hasPendingSubmissions) return;
+        const interval = setInterval(fetchStatus, STATUS_RECONCILE_INTERVAL_MS);
+        const handleVisibility = () => {
+            if (document.visibilityState === 'visible') fetchStatus();
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => {
+            clearInterval(interval);
+            document.removeEventListener('visibilitychange', handleVisibility);
+        };
+    }, [sessionId, isSessionOver, isChannelLive, hasPendingSubmissions, fetchStatus]);
 
     return {
         sessionId,
         currentQuestion,
         currentQuestionIndex,
-        remainingTime,
+        assessmentDeadline,
+        questionDeadline,
+        sessionDomain,
         isLoading,
         error,
         isCompleted,
+        isTerminated,
+        isTimedOut,
+        attemptBlock,
+        isOffline: !isOnline || isUnreachable,
+        pendingSubmissions,
+        rejectedSubmissions,
+        channelState,
+        leaseState,
+        takeOverSession: takeOver,
+        proctorMessage,
+        dismissProctorMessage: () => setProctorMessage(null),
         setError,
         startSession,
         fetchQuestion,
         submitAnswer,
+        terminateSession,
+        flagSession,
         endSession
     };
 };
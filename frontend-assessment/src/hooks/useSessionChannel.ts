@@ -0,0 +1,35 @@
+import { useState, useEffect, useRef } from 'react';
+import { sessionChannel } from '../services/sessionChannel';
+import type { SessionChannelEvent, SessionChannelState } from '../types/session';
+
+/**
+ * Subscribes to the session's realtime event stream while a session id is given.
+ * Returns the connection state; 'polling' means the stream is down and callers should poll instead.
+ */
+export const useSessionChannel = (sessionId: string | null | undefined, onEvent: (event: SessionChannelEvent) => void) => {
+    const [state, setState] = useState<SessionChannelState>('connecting');
+    // Latest handler, so re-renders do not resubscribe
+    const onEventRef = useRef(onEvent);
+
+    useEffect(() => {
+        onEventRef.current = onEvent;
+    });
+
+    useEffect(() => {
+        if (!sessionId) return;
+        const unsubscribe = sessionChannel.subscribe(sessionId, event => {
+            if (event.type === 'connection') {
+                setState(event.state);
+            } else {
+                onEventRef.current(event);
+            }
+        });
+        const syncState = setTimeout(() => setState(sessionChannel.state(sessionId)), 0);
+        return () => {
+            clearTimeout(syncState);
+            unsubscribe();
+        };
+    }, [sessionId]);
+
+    return sessionId ? state : 'closed';
+};
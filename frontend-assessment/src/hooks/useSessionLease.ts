@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { sessionService } from '../services/sessionService';
+import { sessionLease } from '../services/sessionLease';
+import { toApiError, SessionConflictError } from '../services/apiErrors';
+import { useSessionChannel } from './useSessionChannel';
+import type { LeaseState, SessionLease } from '../types/session';
+
+// Comfortably inside the server's LEASE_TTL_SECONDS so one lost heartbeat does not lapse the lease
+const LEASE_HEARTBEAT_INTERVAL_MS = 10000;
+
+/**
+ * Holds the server-issued lease that lets only one tab or device work on a session at a time.
+ * The lease is claimed when the session is set and renewed by heartbeats; a client that finds it
+ * held elsewhere keeps polling in case it frees up, while one whose lease was taken over stops.
+ */
+export const useSessionLease = (sessionId: string | null, enabled: boolean) => {
+    // Keyed by session so a new session starts from 'acquiring' without a reset in an effect
+    const [lease, setLease] = useState<{ sessionId: string | null; state: LeaseState }>({ sessionId: null, state: 'idle' });
+    const state: LeaseState = !enabled || !sessionId ? 'idle' : lease.sessionId === sessionId ? lease.state : 'acquiring';
+
+    const acquire = useCallback(async (takeover = false): Promise<SessionLease | undefined> => {
+        if (!sessionId) return;
+        try {
+            const granted = await sessionService.acquireLease(sessionId, sessionLease.get(), takeover);
+            if (granted.leaseId) sessionLease.set(granted.leaseId);
+            if (granted.receipt) sessionLease.setReceipt(granted.receipt);
+            setLease({ sessionId, state: 'held' });
+            return granted;
+        } catch (err) {
+            const apiError = toApiError(err);
+            if (apiError instanceof SessionConflictError) {
+                sessionLease.clear();
+                setLease(prev => ({
+                    sessionId,
+                    state: prev.sessionId === sessionId && (prev.state === 'held' || prev.state === 'revoked') ? 'revoked' : 'elsewhere',
+                }));
+            }
+            // Anything else (offline, session ended) keeps the current state; the session itself reports endings
+            console.error('[Lease] Acquire failed:', apiError);
+        }
+    }, [sessionId]);
+
+    /**
+     * Marks this client as displaced, e.g. when the server refused its work
+     */
+    const revoke = useCallback(() => {
+        sessionLease.clear();
+        setLease({ sessionId, state: 'revoked' });
+    }, [sessionId]);
+
+    // A takeover is pushed over the session channel without the new lease id, so every holder heartbeats
+    // at once: the new holder renews, the displaced one gets a conflict and is revoked
+    useSessionChannel(enabled ? sessionId : null, event => {
+        if (event.type === 'taken_over' && state === 'held') {
+            console.log('[Lease] Session taken over; confirming the lease');
+            acquire();
+        }
+    });
+
+    const isRevoked = state === 'revoked';
+    useEffect(() => {
+        if (!enabled || !sessionId || isRevoked) return;
+        const first = setTimeout(() => acquire(), 0);
+        const interval = setInterval(() => acquire(), LEASE_HEARTBEAT_INTERVAL_MS);
+        return () => {
+            clearTimeout(first);
+            clearInterval(interval);
+        };
+    }, [enabled, sessionId, isRevoked, acquire]);
+
+    /**
+     * Releases the lease so another client can pick the session up at once
+     */
+    const release = useCallback(() => {
+        const leaseId = sessionLease.get();
+        sessionLease.clear();
+        if (sessionId && leaseId) {
+            sessionService.releaseLease(sessionId, leaseId).catch(err => console.error('[Lease] Release failed:', err));
+        }
+    }, [sessionId]);
+
+    return { leaseState: state, takeOver: () => acquire(true), revoke, release };
+};
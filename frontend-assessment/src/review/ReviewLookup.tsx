@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Search, ArrowRight, LogOut } from 'lucide-react';
+import { useAuth } from '../context/useAuth';
+
+/**
+ * Review Lookup - entry point for interviewers and admins to open a session's results
+ */
+export default function ReviewLookup() {
+    const { user, logout } = useAuth();
+    const navigate = useNavigate();
+    const [sessionId, setSessionId] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = sessionId.trim();
+        if (trimmed) navigate(`/review/${encodeURIComponent(trimmed)}`);
+    };
+
+    return (
+        <div className="min-h-screen w-full bg-[var(--bg-primary)] text-[var(--text-primary)] px-6 py-12">
+            <div className="max-w-2xl mx-auto">
+                <div className="flex items-center justify-between mb-10">
+                    <div>
+                        <h1 className="text-3xl font-semibold tracking-tight mb-2">Session Review</h1>
+                        <p className="text-sm text-[var(--text-secondary)]">Open a candidate's scores, answers and proctoring log.</p>
+                    </div>
+                    <div className="flex gap-3">
+                        {user?.role === 'admin' && (
+                            <Link to="/admin/questions" className="px-5 py-3 rounded-xl border border-[var(--glass-border)] text-[11px] font-semibold uppercase tracking-widest hover:border-indigo-500/30 transition-all">Question Bank</Link>
+                        )}
+                        <button onClick={logout} className="px-5 py-3 rounded-xl border border-[var(--glass-border)] text-[11px] font-semibold uppercase tracking-widest flex items-center gap-2 hover:border-indigo-500/30 transition-all">
+                            <LogOut size={14} /> Sign Out
+                        </button>
+                    </div>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-6 rounded-2xl bg-[var(--bg-secondary)] border border-[var(--glass-border)] flex gap-3">
+                    <div className="relative flex-1">
+                        <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+                        <input
+                            value={sessionId}
+                            onChange={(e) => setSessionId(e.target.value)}
+                            placeholder="Assessment session ID"
+                            className="w-full bg-[var(--bg-primary)]/50 border border-[var(--glass-border)] rounded-xl py-3 pl-11 pr-4 text-sm outline-none focus:border-indigo-500/30 transition-all"
+                        />
+                    </div>
+                    <button type="submit" disabled={!sessionId.trim()} className="px-6 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white text-[11px] font-semibold uppercase tracking-widest flex items-center gap-2 transition-all">
+                        Open <ArrowRight size={14} />
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
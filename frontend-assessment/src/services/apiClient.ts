@@ -1,8 +1,21 @@
 import axios from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { authService } from './authService';
+import { SESSION_API_URL } from './apiConfig';
+import { toApiError } from './apiErrors';
+import { sessionLease } from './sessionLease';
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 400;
+const RETRYABLE_STATUSES = [502, 503, 504];
+// Safe to repeat by definition; POSTs only retry when they carry an Idempotency-Key
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+type RetryableConfig = InternalAxiosRequestConfig & { _retried?: boolean; _retryCount?: number };
 
 // Create axes instances
 export const sessionClient = axios.create({
-    baseURL: 'http://localhost:8001', // FastAPI backend port
+    baseURL: SESSION_API_URL, // FastAPI backend
     headers: {
         'Content-Type': 'application/json',
     },
@@ -15,6 +28,11 @@ sessionClient.interceptors.request.use(
         if (token && config.headers) {
             config.headers.Authorization = `Bearer ${token}`;
         }
+        // Identifies this tab as the session's lease holder; work from any other client is refused
+        const leaseId = sessionLease.get();
+        if (leaseId && config.headers && !config.headers['X-Session-Lease']) {
+            config.headers['X-Session-Lease'] = leaseId;
+        }
         return config;
     },
     (error) => {
@@ -22,14 +40,44 @@ sessionClient.interceptors.request.use(
     }
 );
 
-// Optional: Interceptor for handling global errors (e.g., 401 Unauthorized)
+const isRetryable = (config: RetryableConfig, status?: number) => {
+    const method = (config.method || 'get').toLowerCase();
+    const idempotent = IDEMPOTENT_METHODS.includes(method) || !!config.headers?.['Idempotency-Key'];
+    const transient = status === undefined || RETRYABLE_STATUSES.includes(status);
+    return idempotent && transient && (config._retryCount ?? 0) < MAX_RETRIES;
+};
+
+// Exponential backoff with jitter so clients recovering together do not retry in lockstep
+const backoffDelay = (attempt: number) => RETRY_BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random() / 2);
+
+// Interceptor for handling global errors: a 401 refreshes the access token and retries once,
+// transient failures of idempotent calls retry with backoff, and everything else becomes an ApiError
 sessionClient.interceptors.response.use(
     (response) => response,
-    (error) => {
-        if (error.response) {
-            // Can trigger global error banners or logging here
-            console.error(`API Error: ${error.response.status} - ${error.response.data?.detail || error.message}`);
+    async (error) => {
+        const config = error.config as RetryableConfig | undefined;
+        const status: number | undefined = error.response?.status;
+
+        if (status === 401 && config && !config._retried) {
+            config._retried = true;
+            try {
+                const token = await authService.refresh();
+                config.headers.Authorization = `Bearer ${token}`;
+                return sessionClient(config);
+            } catch {
+                // Refresh failed; surface the original 401
+            }
         }
-        return Promise.reject(error);
+
+        if (config && !axios.isCancel(error) && isRetryable(config, status)) {
+            const attempt = config._retryCount ?? 0;
+            config._retryCount = attempt + 1;
+            await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt)));
+            return sessionClient(config);
+        }
+
+        const apiError = toApiError(error);
+        console.error(`API Error: ${apiError.status ?? 'network'} - ${apiError.message}`);
+        return Promise.reject(apiError);
     }
 );
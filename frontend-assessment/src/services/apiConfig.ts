@@ -0,0 +1,3 @@
+// Base URLs come from Vite env (see .env.example); the Node API defaults to same-origin through the dev proxy
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? '';
+export const SESSION_API_URL = import.meta.env.VITE_SESSION_API_URL ?? 'http://localhost:8001';
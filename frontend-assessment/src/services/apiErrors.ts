@@ -0,0 +1,171 @@
+import axios from 'axios';
+import type { AttemptBlockCode } from '../types/session';
+
+interface ApiErrorOptions {
+    status?: number;
+    code?: string;
+    detail?: unknown;
+}
+
+/**
+ * Base class for every failure surfaced by the session API client.
+ */
+export class ApiError extends Error {
+    status?: number;
+    code?: string;
+    detail?: unknown; // Raw `detail` from the FastAPI response body
+
+    constructor(message: string, options: ApiErrorOptions = {}) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = options.status;
+        this.code = options.code;
+        this.detail = options.detail;
+    }
+}
+
+/**
+ * The request was rejected as malformed (400/422); `fieldErrors` is keyed by the offending field.
+ */
+export class ValidationError extends ApiError {
+    fieldErrors: Record<string, string>;
+
+    constructor(message: string, fieldErrors: Record<string, string>, options: ApiErrorOptions = {}) {
+        super(message, options);
+        this.name = 'ValidationError';
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+/**
+ * The access token was missing or could not be refreshed (401).
+ */
+export class UnauthorizedError extends ApiError {
+    constructor(message: string, options: ApiErrorOptions = {}) {
+        super(message, options);
+        this.name = 'UnauthorizedError';
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message: string, options: ApiErrorOptions = {}) {
+        super(message, options);
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * The session has ended (completed, terminated or timed out) and refuses further work (403).
+ */
+export class SessionCompletedError extends ApiError {
+    constructor(message: string, options: ApiErrorOptions = {}) {
+        super(message, options);
+        this.name = 'SessionCompletedError';
+    }
+}
+
+/**
+ * The server refused a submitted answer (403), e.g. the session had ended or it arrived past the deadline.
+ * `sessionStatus` is the session's status at the time.
+ */
+export class SubmissionRejectedError extends ApiError {
+    sessionStatus: string;
+
+    constructor(message: string, sessionStatus: string, options: ApiErrorOptions = {}) {
+        super(message, options);
+        this.name = 'SubmissionRejectedError';
+        this.sessionStatus = sessionStatus;
+    }
+}
+
+/**
+ * The retake policy refused to start another attempt.
+ */
+export class AttemptBlockedError extends ApiError {
+    declare code: AttemptBlockCode;
+    retryAfterSeconds: number;
+
+    constructor(message: string, code: AttemptBlockCode, retryAfterSeconds: number, options: ApiErrorOptions = {}) {
+        super(message, { ...options, code });
+        this.name = 'AttemptBlockedError';
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+/**
+ * Another tab or device holds the session's lease (409); `sessionId` is the session it is working on.
+ */
+export class SessionConflictError extends ApiError {
+    sessionId: string | null;
+    domain: string | null;
+
+    constructor(message: string, sessionId: string | null, domain: string | null, options: ApiErrorOptions = {}) {
+        super(message, options);
+        this.name = 'SessionConflictError';
+        this.sessionId = sessionId;
+        this.domain = domain;
+    }
+}
+
+/**
+ * No response arrived: the network is down, the server is unreachable or the request timed out.
+ */
+export class NetworkError extends ApiError {
+    constructor(message = 'Unable to reach the server. Check your connection and try again.') {
+        super(message);
+        this.name = 'NetworkError';
+    }
+}
+
+const ATTEMPT_BLOCK_CODES: AttemptBlockCode[] = ['NO_ATTEMPTS_REMAINING', 'RETAKE_COOLDOWN', 'INVITATION_EXPIRED'];
+
+type ValidationIssue = { loc?: (string | number)[]; msg?: string };
+
+const describeDetail = (detail: unknown, fallback: string): string => {
+    if (typeof detail === 'string') return detail;
+    if (Array.isArray(detail)) {
+        return (detail as ValidationIssue[]).map(issue => `${issue.loc?.join('.') || 'error'}: ${issue.msg || 'ValidationError'}`).join(' | ');
+    }
+    if (detail && typeof detail === 'object' && typeof (detail as { message?: unknown }).message === 'string') {
+        return (detail as { message: string }).message;
+    }
+    return fallback;
+};
+
+// FastAPI reports 422s as a list of issues located by path, e.g. ['body', 'answer', 'kind']
+const toFieldErrors = (detail: unknown): Record<string, string> => {
+    if (!Array.isArray(detail)) return {};
+    return Object.fromEntries((detail as ValidationIssue[]).map(issue => [String(issue.loc?.[issue.loc.length - 1] ?? 'request'), issue.msg || 'Invalid value']));
+};
+
+/**
+ * Converts an axios (or any) failure into the matching ApiError subclass.
+ */
+export const toApiError = (error: unknown): ApiError => {
+    if (error instanceof ApiError) return error;
+    if (!axios.isAxiosError(error)) {
+        return new ApiError(error instanceof Error ? error.message : 'An unknown error occurred');
+    }
+    if (!error.response) return new NetworkError();
+
+    const { status, data } = error.response;
+    const detail = data?.detail;
+    const code = detail && typeof detail === 'object' && !Array.isArray(detail) ? detail.code : undefined;
+    const message = describeDetail(detail, error.message);
+    const options = { status, code, detail };
+
+    if (ATTEMPT_BLOCK_CODES.includes(code)) {
+        return new AttemptBlockedError(message, code, Number(detail.retryAfterSeconds) || 0, options);
+    }
+    if (code === 'SESSION_ACTIVE_ELSEWHERE') {
+        return new SessionConflictError(message, detail.sessionId ?? null, detail.domain ?? null, options);
+    }
+    if (code === 'SUBMISSION_REJECTED') {
+        return new SubmissionRejectedError(message, String(detail.status ?? ''), options);
+    }
+    if (status === 400 || status === 422) return new ValidationError(message, toFieldErrors(detail), options);
+    if (status === 401) return new UnauthorizedError(message, options);
+    if (status === 403) return new SessionCompletedError(message, options);
+    if (status === 404) return new NotFoundError(message, options);
+    return new ApiError(message, options);
+};
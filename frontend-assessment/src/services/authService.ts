@@ -1,8 +1,16 @@
+import { API_BASE_URL } from './apiConfig';
+
+export type UserRole = 'candidate' | 'interviewer' | 'admin';
+
+// Roles allowed into the review pages
+export const STAFF_ROLES: UserRole[] = ['interviewer', 'admin'];
+
 export interface User {
     id: number;
     username: string;
     email: string;
     full_name: string;
+    role: UserRole;
 }
 
 export interface AuthResponse {
@@ -10,69 +18,136 @@ export interface AuthResponse {
     user: User;
 }
 
-const API_URL = '/api/auth';
+const API_URL = `${API_BASE_URL}/api/auth`;
+const REFRESH_CONFLICT_RETRY_MS = 500;
+
+let refreshPromise: Promise<string> | null = null;
+
+const requestRefresh = async (): Promise<string> => {
+    let response = await fetch(`${API_URL}/refresh`, { method: 'POST', credentials: 'same-origin' });
+    if (response.status === 409) {
+        // Another tab rotated the refresh token first; the new cookie is already in place
+        await new Promise(resolve => setTimeout(resolve, REFRESH_CONFLICT_RETRY_MS));
+        response = await fetch(`${API_URL}/refresh`, { method: 'POST', credentials: 'same-origin' });
+    }
+
+    if (!response.ok) {
+        localStorage.removeItem('jwt');
+        throw new Error('Session expired');
+    }
+
+    const data = await response.json();
+    localStorage.setItem('jwt', data.token);
+    return data.token;
+};
+
+export interface SignupResponse {
+    message: string;
+    user: User;
+}
+
+export interface MessageResponse {
+    message: string;
+}
+
+/**
+ * Error from the auth API; `code` identifies cases the UI handles specially (e.g. EMAIL_NOT_VERIFIED)
+ * and `fieldErrors` carries per-field validation messages keyed by input name.
+ */
+export class AuthError extends Error {
+    code?: string;
+    retryAfterSeconds?: number;
+    fieldErrors?: Record<string, string>;
+
+    constructor(message: string, code?: string, retryAfterSeconds?: number, fieldErrors?: Record<string, string>) {
+        super(message);
+        this.name = 'AuthError';
+        this.code = code;
+        this.retryAfterSeconds = retryAfterSeconds;
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+const formatWait = (seconds: number) => {
+    if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// Login refusals from the server's throttling, reworded with how long to wait
+const THROTTLE_MESSAGES: Record<string, (wait: string) => string> = {
+    RATE_LIMITED: (wait) => `Too many login attempts. Please wait ${wait} before trying again.`,
+    ACCOUNT_LOCKED: (wait) => `Your account is temporarily locked after repeated failed logins. Try again in ${wait}, or reset your password.`,
+};
+
+const postJson = async <T>(path: string, body: unknown, fallbackMessage: string): Promise<T> => {
+    const response = await fetch(`${API_URL}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    let data;
+    const text = await response.text();
+    try {
+        data = text ? JSON.parse(text) : {};
+    } catch {
+        throw new AuthError('Invalid server response');
+    }
+
+    if (!response.ok) {
+        throw new AuthError(data.message || fallbackMessage, data.code, data.retryAfterSeconds, data.errors);
+    }
+
+    return data;
+};
 
 export const authService = {
     async login(email: string, password: string): Promise<AuthResponse> {
-        const response = await fetch(`${API_URL}/login`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ email, password }),
-        });
-
-        let data;
-        const text = await response.text();
+        let data: AuthResponse;
         try {
-            data = text ? JSON.parse(text) : {};
-        } catch (e) {
-            throw new Error('Invalid server response');
+            data = await postJson<AuthResponse>('/login', { email, password }, 'Login failed');
+        } catch (err) {
+            const toMessage = err instanceof AuthError && err.code ? THROTTLE_MESSAGES[err.code] : undefined;
+            if (err instanceof AuthError && toMessage) {
+                throw new AuthError(toMessage(formatWait(err.retryAfterSeconds ?? 60)), err.code, err.retryAfterSeconds);
+            }
+            throw err;
         }
-
-        if (!response.ok) {
-            throw new Error(data.message || 'Login failed');
-        }
-
         localStorage.setItem('jwt', data.token);
         return data;
     },
 
-    async signup(userData: {
+    /**
+     * Creates an unverified account; the user logs in after following the emailed link.
+     */
+    signup(userData: {
         username: string;
         email: string;
         password: string;
         full_name: string;
-    }): Promise<AuthResponse> {
-        const response = await fetch(`${API_URL}/signup`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(userData),
-        });
-
-        let data;
-        const text = await response.text();
-        try {
-            data = text ? JSON.parse(text) : {};
-        } catch (e) {
-            throw new Error('Invalid server response');
-        }
+    }): Promise<SignupResponse> {
+        return postJson<SignupResponse>('/signup', userData, 'Signup failed');
+    },
 
-        if (!response.ok) {
-            throw new Error(data.message || 'Signup failed');
-        }
+    verifyEmail(token: string): Promise<MessageResponse> {
+        return postJson<MessageResponse>('/verify-email', { token }, 'Verification failed');
+    },
 
-        localStorage.setItem('jwt', data.token);
-        return data;
+    resendVerification(email: string): Promise<MessageResponse> {
+        return postJson<MessageResponse>('/resend-verification', { email }, 'Could not resend verification email');
     },
 
-    async getMe(): Promise<User> {
-        const token = localStorage.getItem('jwt');
-        if (!token) throw new Error('No session');
+    requestPasswordReset(email: string): Promise<MessageResponse> {
+        return postJson<MessageResponse>('/forgot-password', { email }, 'Could not send reset email');
+    },
 
-        const response = await fetch(`${API_URL}/me`, {
-            headers: {
-                'Authorization': `Bearer ${token}`,
-            },
-        });
+    resetPassword(token: string, password: string): Promise<MessageResponse> {
+        return postJson<MessageResponse>('/reset-password', { token, password }, 'Password reset failed');
+    },
+
+    async getMe(): Promise<User> {
+        const response = await authService.authFetch(`${API_URL}/me`);
 
         if (!response.ok) {
             localStorage.removeItem('jwt');
@@ -82,8 +157,50 @@ export const authService = {
         return response.json();
     },
 
-    logout() {
-        localStorage.removeItem('jwt');
+    /**
+     * Exchanges the httpOnly refresh cookie for a new access token.
+     * Concurrent callers share one request so the refresh token is rotated only once.
+     */
+    refresh(): Promise<string> {
+        if (!refreshPromise) {
+            refreshPromise = requestRefresh().finally(() => {
+                refreshPromise = null;
+            });
+        }
+        return refreshPromise;
+    },
+
+    /**
+     * fetch with the access token attached; on a 401 the token is refreshed and the request retried once.
+     */
+    async authFetch(url: string, options: RequestInit = {}): Promise<Response> {
+        const send = (token: string | null) => {
+            const headers = new Headers(options.headers);
+            if (token) headers.set('Authorization', `Bearer ${token}`);
+            return fetch(url, { ...options, headers });
+        };
+
+        const response = await send(localStorage.getItem('jwt'));
+        if (response.status !== 401) return response;
+
+        try {
+            return await send(await authService.refresh());
+        } catch {
+            return response;
+        }
+    },
+
+    /**
+     * Revokes the refresh token server-side before dropping the local access token.
+     */
+    async logout() {
+        try {
+            await fetch(`${API_URL}/logout`, { method: 'POST', credentials: 'same-origin' });
+        } catch (err) {
+            console.error('[authService] Logout request failed:', err);
+        } finally {
+            localStorage.removeItem('jwt');
+        }
     },
 
     getToken() {
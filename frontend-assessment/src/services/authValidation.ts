@@ -0,0 +1,38 @@
+import authSchema from '../../shared/authSchema.json';
+
+// Same rules the server enforces in server/authValidation.js
+interface FieldRule {
+    label: string;
+    required?: boolean;
+    trim?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    checks?: { pattern: string; message: string }[];
+}
+
+export type AuthFormName = keyof typeof authSchema.forms;
+export type FieldErrors = Record<string, string>;
+
+const rules: Record<string, FieldRule> = authSchema.rules;
+const forms: Record<AuthFormName, Record<string, string>> = authSchema.forms;
+
+const checkField = (rule: FieldRule, value: string | undefined): string | null => {
+    const text = rule.trim === false ? (value ?? '') : (value ?? '').trim();
+    if (!text) return rule.required ? `${rule.label} is required.` : null;
+    if (rule.minLength && text.length < rule.minLength) return `${rule.label} must be at least ${rule.minLength} characters.`;
+    if (rule.maxLength && text.length > rule.maxLength) return `${rule.label} must be at most ${rule.maxLength} characters.`;
+    const failed = (rule.checks ?? []).find(check => !new RegExp(check.pattern).test(text));
+    return failed ? failed.message : null;
+};
+
+/**
+ * Checks a form's values before submitting; returns field errors, empty when valid.
+ */
+export const validateForm = (formName: AuthFormName, values: Record<string, string | undefined>): FieldErrors => {
+    const errors: FieldErrors = {};
+    Object.entries(forms[formName]).forEach(([field, ruleName]) => {
+        const error = checkField(rules[ruleName], values[field]);
+        if (error) errors[field] = error;
+    });
+    return errors;
+};
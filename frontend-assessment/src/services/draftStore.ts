@@ -0,0 +1,63 @@
+import type { AnswerDraft } from '../types/session';
+
+const DB_NAME = 'assessment_drafts';
+const STORE_NAME = 'drafts';
+
+export interface StoredDraft extends AnswerDraft {
+    sessionId: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['sessionId', 'questionId'] });
+                store.createIndex('sessionId', 'sessionId');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Local IndexedDB copy of answer drafts, keyed by session and question,
+ * so typed answers survive reloads even when the API is unreachable.
+ */
+export const draftStore = {
+    async get(sessionId: string, questionId: string): Promise<StoredDraft | null> {
+        return (await run<StoredDraft | undefined>('readonly', store => store.get([sessionId, questionId]))) ?? null;
+    },
+
+    async put(draft: StoredDraft): Promise<void> {
+        await run('readwrite', store => store.put(draft));
+    },
+
+    async remove(sessionId: string, questionId: string): Promise<void> {
+        await run('readwrite', store => store.delete([sessionId, questionId]));
+    },
+
+    /**
+     * Drops every draft belonging to a finished session.
+     */
+    async clearSession(sessionId: string): Promise<void> {
+        const keys = await run<IDBValidKey[]>('readonly', store => store.index('sessionId').getAllKeys(sessionId));
+        await Promise.all(keys.map(key => run('readwrite', store => store.delete(key))));
+    },
+};
@@ -0,0 +1,66 @@
+import { authService } from './authService';
+import type { Invitation, InvitationPreview, InvitationCreateRequest, InvitationCreateResponse } from '../types/invitation';
+import { API_BASE_URL } from './apiConfig';
+
+const API_URL = `${API_BASE_URL}/api/invitations`;
+
+// Link token kept across sign-up, email verification and login until the account accepts it
+export const PENDING_INVITATION_KEY = 'pending_invitation';
+
+const readJson = async <T>(response: Response, fallbackMessage: string): Promise<T> => {
+    let data;
+    const text = await response.text();
+    try {
+        data = text ? JSON.parse(text) : {};
+    } catch {
+        throw new Error('Invalid server response');
+    }
+
+    if (!response.ok) {
+        const fieldErrors = data.errors ? Object.values(data.errors).join(' ') : '';
+        throw new Error([data.message || fallbackMessage, fieldErrors].filter(Boolean).join(' '));
+    }
+
+    return data;
+};
+
+const post = async <T>(path: string, body: unknown, fallbackMessage: string): Promise<T> => {
+    const response = await authService.authFetch(`${API_URL}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    return readJson<T>(response, fallbackMessage);
+};
+
+export const invitationService = {
+    /**
+     * Creates an invitation (admin only); the response carries the one-time link to share.
+     */
+    async create(request: InvitationCreateRequest): Promise<InvitationCreateResponse> {
+        return post<InvitationCreateResponse>('', request, 'Could not create invitation');
+    },
+
+    /**
+     * Reads the invited email and assessment from a link token without signing in.
+     */
+    async preview(token: string): Promise<InvitationPreview> {
+        const response = await fetch(`${API_URL}/${encodeURIComponent(token)}`);
+        return readJson<InvitationPreview>(response, 'Invitation not found');
+    },
+
+    /**
+     * Binds the invitation to the signed-in candidate.
+     */
+    async accept(token: string): Promise<Invitation> {
+        return post<Invitation>(`/${encodeURIComponent(token)}/accept`, {}, 'Could not accept invitation');
+    },
+
+    /**
+     * The signed-in candidate's accepted invitation that has not been started, if any.
+     */
+    async getActive(): Promise<Invitation | null> {
+        const response = await authService.authFetch(`${API_URL}/active`);
+        return readJson<Invitation | null>(response, 'Could not load invitation');
+    },
+};
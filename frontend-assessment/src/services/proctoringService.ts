@@ -0,0 +1,180 @@
+import { authService } from './authService';
+import type { ClientProctoringEvent, LoggedProctoringEvent, ProctoringBatchResponse, ProctoringPolicy, ViolationKind } from '../types/proctoring';
+import { API_BASE_URL } from './apiConfig';
+
+const API_URL = `${API_BASE_URL}/api/proctoring`;
+const QUEUE_KEY = 'proctoring_event_queue';
+const QUARANTINE_KEY = 'proctoring_event_quarantine';
+const BATCH_SIZE = 25;
+const FLUSH_DELAY_MS = 3000;
+const MAX_RETRY_DELAY_MS = 60000;
+const MAX_QUARANTINED = 500;
+// Client errors that may succeed on retry; any other 4xx means the batch itself was refused
+const RETRYABLE_CLIENT_STATUSES = [401, 408, 429];
+
+// Mirrors the server default; used until the assessment policy has loaded
+export const DEFAULT_PROCTORING_POLICY: ProctoringPolicy = {
+    policyId: 'default',
+    weights: { blur: 1, fullscreen_exit: 1, context_menu: 1, restricted_key: 1, multi_touch: 1, session_takeover: 1, screen_share_stopped: 1 },
+    graceWindowsMs: { blur: 2000, fullscreen_exit: 2000, context_menu: 2000, restricted_key: 2000, multi_touch: 2000, session_takeover: 0, screen_share_stopped: 2000 },
+    enabledListeners: { blur: true, fullscreen_exit: true, context_menu: true, restricted_key: true, multi_touch: true, session_takeover: true, screen_share_stopped: true },
+    maxScore: 5,
+    onLimitReached: 'terminate',
+    resultsVisibility: 'scores',
+};
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let isFlushing = false;
+let retryDelay = FLUSH_DELAY_MS;
+
+const readQueue = (): ClientProctoringEvent[] => {
+    try {
+        return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const writeQueue = (queue: ClientProctoringEvent[]) => {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+};
+
+/**
+ * Sets aside a batch the server refused so it stops blocking the queue but stays available for inspection.
+ */
+const quarantine = (batch: ClientProctoringEvent[], status: number) => {
+    let quarantined: ClientProctoringEvent[] = [];
+    try {
+        quarantined = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+    } catch {
+        // Start over from a corrupt store
+    }
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...quarantined, ...batch].slice(-MAX_QUARANTINED)));
+    console.error(`[proctoringService] ${batch.length} events refused with status ${status}; quarantined`);
+};
+
+const scheduleFlush = (delay: number) => {
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+        flushTimer = null;
+        proctoringService.flush();
+    }, delay);
+};
+
+export const proctoringService = {
+    /**
+     * Queues a violation event or client note locally and schedules a batched upload.
+     * The queue survives reloads, so nothing is lost while offline.
+     */
+    record(event: Omit<ClientProctoringEvent, 'eventId' | 'timestamp'>): ClientProctoringEvent {
+        const fullEvent: ClientProctoringEvent = {
+            ...event,
+            eventId: crypto.randomUUID(),
+            timestamp: new Date().toISOString(),
+        };
+        writeQueue([...readQueue(), fullEvent]);
+        scheduleFlush(FLUSH_DELAY_MS);
+        return fullEvent;
+    },
+
+    /**
+     * Uploads queued events in batches. Batches that fail on the network, with a 5xx or
+     * with 401/408/429 stay queued and are retried with exponential backoff; any other
+     * 4xx would fail again, so the batch is quarantined and the rest keep flowing.
+     */
+    async flush(): Promise<void> {
+        if (isFlushing) return;
+        if (!authService.getToken() || readQueue().length === 0) return;
+        if (!navigator.onLine) return; // The 'online' listener resumes flushing
+
+        isFlushing = true;
+        try {
+            let queue = readQueue();
+            while (queue.length > 0) {
+                const batch = queue.slice(0, BATCH_SIZE);
+                const response = await authService.authFetch(`${API_URL}/events`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ events: batch }),
+                    keepalive: true,
+                });
+
+                const refused = response.status >= 400 && response.status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(response.status);
+                if (refused) {
+                    quarantine(batch, response.status);
+                } else if (!response.ok) {
+                    throw new Error(`Proctoring upload failed with status ${response.status}`);
+                } else {
+                    await response.json() as ProctoringBatchResponse;
+                }
+
+                // Re-read in case events were recorded while the request was in flight
+                const handledIds = new Set(batch.map(e => e.eventId));
+                queue = readQueue().filter(e => !handledIds.has(e.eventId));
+                writeQueue(queue);
+            }
+            retryDelay = FLUSH_DELAY_MS;
+        } catch (err) {
+            console.error('[proctoringService] flush failed, will retry:', err);
+            retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+            scheduleFlush(retryDelay);
+        } finally {
+            isFlushing = false;
+        }
+    },
+
+    /**
+     * Number of events still waiting to be uploaded.
+     */
+    pendingCount(): number {
+        return readQueue().length;
+    },
+
+    /**
+     * Totals the violation score already recorded for a session, uploaded or still queued, under the
+     * given policy weights, so the score survives reloads. Server-recorded notes do not count.
+     */
+    async violationScore(sessionId: string, weights: Record<ViolationKind, number>): Promise<number> {
+        const recorded = await proctoringService.getEvents(sessionId);
+        const seen = new Set(recorded.map(e => e.eventId));
+        const queued = readQueue().filter(e => e.sessionId === sessionId && !seen.has(e.eventId));
+        return [...recorded, ...queued]
+            .reduce((score, e) => score + (e.kind in weights ? weights[e.kind as ViolationKind] : 0), 0);
+    },
+
+    /**
+     * Loads the proctoring policy for an assessment or domain.
+     */
+    async getPolicy(params: { domain?: string; assessmentId?: string }): Promise<ProctoringPolicy> {
+        const query = new URLSearchParams();
+        if (params.domain) query.set('domain', params.domain);
+        if (params.assessmentId) query.set('assessmentId', params.assessmentId);
+
+        const response = await authService.authFetch(`${API_URL}/policy?${query.toString()}`);
+
+        if (!response.ok) {
+            throw new Error('Failed to load proctoring policy');
+        }
+
+        return response.json();
+    },
+
+    /**
+     * Fetches the recorded violation log for a session, including notes the session server recorded.
+     */
+    async getEvents(sessionId: string): Promise<LoggedProctoringEvent[]> {
+        const response = await authService.authFetch(`${API_URL}/sessions/${sessionId}/events`);
+
+        if (!response.ok) {
+            throw new Error('Failed to load proctoring events');
+        }
+
+        return response.json();
+    }
+};
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => proctoringService.flush());
+}
@@ -0,0 +1,92 @@
+import { authService } from './authService';
+import type { QuestionBankItem, QuestionInput, QuestionFilters, QuestionFileFormat, QuestionImportReport } from '../types/questionBank';
+import { API_BASE_URL } from './apiConfig';
+
+const API_URL = `${API_BASE_URL}/api/questions`;
+
+const toQuery = (filters: QuestionFilters) => {
+    const query = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') query.set(key, String(value));
+    });
+    return query;
+};
+
+const request = async <T>(path: string, options: RequestInit = {}): Promise<T> => {
+    const response = await authService.authFetch(`${API_URL}${path}`, {
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options.headers,
+        },
+    });
+
+    let data;
+    const text = await response.text();
+    try {
+        data = text ? JSON.parse(text) : {};
+    } catch {
+        throw new Error('Invalid server response');
+    }
+
+    if (!response.ok) {
+        const fieldErrors = data.errors ? Object.values(data.errors).join(' ') : '';
+        throw new Error([data.message || 'Question bank request failed', fieldErrors].filter(Boolean).join(' '));
+    }
+
+    return data;
+};
+
+export const questionBankService = {
+    /**
+     * Lists questions matching the given filters.
+     */
+    async list(filters: QuestionFilters = {}): Promise<QuestionBankItem[]> {
+        return request<QuestionBankItem[]>(`?${toQuery(filters).toString()}`);
+    },
+
+    /**
+     * Creates a new question.
+     */
+    async create(input: QuestionInput): Promise<QuestionBankItem> {
+        return request<QuestionBankItem>('', { method: 'POST', body: JSON.stringify(input) });
+    },
+
+    /**
+     * Replaces an existing question's fields.
+     */
+    async update(questionId: string, input: QuestionInput): Promise<QuestionBankItem> {
+        return request<QuestionBankItem>(`/${questionId}`, { method: 'PUT', body: JSON.stringify(input) });
+    },
+
+    /**
+     * Retires a question so new sessions no longer draw it.
+     */
+    async retire(questionId: string): Promise<QuestionBankItem> {
+        return request<QuestionBankItem>(`/${questionId}/retire`, { method: 'POST' });
+    },
+
+    /**
+     * Imports a JSON or CSV question file. Invalid and duplicate rows are skipped
+     * and reported per row; with dryRun nothing is written.
+     */
+    async importQuestions(format: QuestionFileFormat, data: string, dryRun: boolean): Promise<QuestionImportReport> {
+        return request<QuestionImportReport>('/import', { method: 'POST', body: JSON.stringify({ format, data, dryRun }) });
+    },
+
+    /**
+     * Downloads the questions matching the filters as a JSON or CSV file.
+     */
+    async exportQuestions(format: QuestionFileFormat, filters: QuestionFilters = {}): Promise<Blob> {
+        const query = toQuery(filters);
+        query.set('format', format);
+
+        const response = await authService.authFetch(`${API_URL}/export?${query.toString()}`);
+
+        if (!response.ok) {
+            throw new Error('Export failed');
+        }
+
+        return response.blob();
+    }
+};
@@ -0,0 +1,123 @@
+import { SESSION_API_URL } from './apiConfig';
+import { sessionService } from './sessionService';
+import type { SessionChannelEvent, SessionChannelState } from '../types/session';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Consecutive failed connects after which subscribers fall back to polling until the stream returns
+const FAILURES_BEFORE_POLLING = 3;
+const EVENT_TYPES = ['status', 'tick', 'terminated', 'extra_time', 'message', 'taken_over'] as const;
+
+type Listener = (event: SessionChannelEvent) => void;
+
+interface Channel {
+    source: EventSource | null;
+    listeners: Set<Listener>;
+    state: SessionChannelState;
+    failures: number;
+    retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// One stream per session, shared by every subscriber
+const channels = new Map<string, Channel>();
+
+const emit = (channel: Channel, event: SessionChannelEvent) => {
+    channel.listeners.forEach(listener => listener(event));
+};
+
+const setState = (channel: Channel, state: SessionChannelState) => {
+    if (channel.state === state) return;
+    channel.state = state;
+    emit(channel, { type: 'connection', state });
+};
+
+const disconnect = (channel: Channel) => {
+    channel.source?.close();
+    channel.source = null;
+    if (channel.retryTimer) clearTimeout(channel.retryTimer);
+    channel.retryTimer = null;
+};
+
+// Reconnects are handled here rather than by EventSource, which gives up on HTTP errors
+const reconnectLater = (sessionId: string, channel: Channel) => {
+    disconnect(channel);
+    channel.failures += 1;
+    if (channel.failures >= FAILURES_BEFORE_POLLING) setState(channel, 'polling');
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (channel.failures - 1));
+    channel.retryTimer = setTimeout(() => {
+        channel.retryTimer = null;
+        if (channels.get(sessionId) === channel) connect(sessionId, channel);
+    }, delay);
+};
+
+const connect = async (sessionId: string, channel: Channel) => {
+    if (typeof EventSource === 'undefined') {
+        setState(channel, 'polling');
+        return;
+    }
+    // EventSource cannot send the access token, so every (re)connect fetches a fresh session-scoped token for the URL
+    let token: string;
+    try {
+        token = await sessionService.getStreamToken(sessionId);
+    } catch (err) {
+        console.error('[Channel] Stream token request failed:', err);
+        if (channels.get(sessionId) === channel) reconnectLater(sessionId, channel);
+        return;
+    }
+    if (channels.get(sessionId) !== channel) return; // Unsubscribed while the token was on its way
+
+    const source = new EventSource(`${SESSION_API_URL}/api/sessions/${sessionId}/events?token=${encodeURIComponent(token)}`);
+    channel.source = source;
+
+    source.onopen = () => {
+        channel.failures = 0;
+        setState(channel, 'live');
+    };
+
+    source.onerror = () => reconnectLater(sessionId, channel);
+
+    EVENT_TYPES.forEach(type => {
+        source.addEventListener(type, (message: MessageEvent<string>) => {
+            let data;
+            try {
+                data = JSON.parse(message.data);
+            } catch {
+                return;
+            }
+            emit(channel, { type, data } as SessionChannelEvent);
+            // The server closes the stream once the session ends; stay closed instead of reconnecting
+            if (type === 'status' && data.status !== 'active') {
+                disconnect(channel);
+                setState(channel, 'closed');
+            }
+        });
+    });
+};
+
+export const sessionChannel = {
+    /**
+     * Subscribes to a session's realtime events. The first subscriber opens the stream,
+     * the last one to unsubscribe closes it. Returns the unsubscribe function.
+     */
+    subscribe(sessionId: string, listener: Listener): () => void {
+        let channel = channels.get(sessionId);
+        if (!channel) {
+            channel = { source: null, listeners: new Set(), state: 'connecting', failures: 0, retryTimer: null };
+            channels.set(sessionId, channel);
+            connect(sessionId, channel);
+        }
+        channel.listeners.add(listener);
+        const subscribed = channel;
+        return () => {
+            subscribed.listeners.delete(listener);
+            if (subscribed.listeners.size === 0) {
+                disconnect(subscribed);
+                channels.delete(sessionId);
+            }
+        };
+    },
+
+    state(sessionId: string): SessionChannelState {
+        return channels.get(sessionId)?.state ?? 'connecting';
+    },
+};
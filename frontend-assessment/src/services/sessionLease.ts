@@ -0,0 +1,32 @@
+// Per tab rather than per browser: sessionStorage survives reloads but is not shared with other tabs
+const LEASE_KEY = 'assessment_session_lease';
+const RECEIPT_KEY = 'assessment_session_receipt';
+
+/**
+ * The session lease this tab holds, as issued by the server.
+ */
+export const sessionLease = {
+    get(): string | null {
+        return sessionStorage.getItem(LEASE_KEY);
+    },
+
+    set(leaseId: string) {
+        sessionStorage.setItem(LEASE_KEY, leaseId);
+    },
+
+    /**
+     * The contact receipt from the latest renewal; the server judges answers queued offline by it.
+     */
+    getReceipt(): string | null {
+        return sessionStorage.getItem(RECEIPT_KEY);
+    },
+
+    setReceipt(receipt: string) {
+        sessionStorage.setItem(RECEIPT_KEY, receipt);
+    },
+
+    clear() {
+        sessionStorage.removeItem(LEASE_KEY);
+        sessionStorage.removeItem(RECEIPT_KEY);
+    },
+};
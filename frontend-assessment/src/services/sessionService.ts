@@ -1,18 +1,51 @@
 import { sessionClient } from './apiClient';
-import type { SessionResponse, SubmitAnswerRequest, Question, SessionStatus } from '../types/session';
+import type {
+    SessionResponse, SessionCreateRequest, SubmitAnswerRequest, Question, SessionStatus, SessionResults, SessionResultsConfirmation,
+    AnswerPayload, AnswerDraft, AttemptStatus, SessionLease
+} from '../types/session';
 
 export const sessionService = {
     /**
-     * Initializes a new session.
+     * Initializes a new session scoped to the selected domain for the signed-in candidate (taken from the access token).
      */
-    async startSession(candidateId: string): Promise<SessionResponse> {
-        console.log(`[sessionService] startSession candidateId: ${candidateId}`);
+    async startSession(request: SessionCreateRequest): Promise<SessionResponse> {
+        console.log(`[sessionService] startSession domain: ${request.domain}`);
         const { data } = await sessionClient.post<SessionResponse>('/api/sessions/start', {
-            candidateId: String(candidateId || "test-user"),
+            domain: request.domain,
+            assessmentTemplateId: request.assessmentTemplateId,
         });
         return data;
     },
 
+    /**
+     * Claims or renews this client's lease on the session; renewing doubles as the heartbeat.
+     * Fails with a SessionConflictError while another tab or device holds it, unless taking over.
+     */
+    async acquireLease(sessionId: string, leaseId: string | null, takeover = false): Promise<SessionLease> {
+        const { data } = await sessionClient.post<SessionLease>(`/api/sessions/${sessionId}/lease`, {
+            leaseId,
+            takeover,
+        });
+        return data;
+    },
+
+    /**
+     * Gives up the lease so another client can pick the session up at once.
+     */
+    async releaseLease(sessionId: string, leaseId: string): Promise<void> {
+        await sessionClient.delete(`/api/sessions/${sessionId}/lease`, {
+            headers: { 'X-Session-Lease': leaseId },
+        });
+    },
+
+    /**
+     * Attempts used and remaining in every domain for a candidate.
+     */
+    async getAttempts(candidateId: string): Promise<AttemptStatus[]> {
+        const { data } = await sessionClient.get<AttemptStatus[]>(`/api/candidates/${candidateId}/attempts`);
+        return data;
+    },
+
     /**
      * Fetches current question in the session.
      */
@@ -22,17 +55,40 @@ export const sessionService = {
     },
 
     /**
-     * Submits an answer to current question.
+     * Submits an answer payload (shaped by the question kind) or a skip for the current question.
+     * Reusing the idempotency key for a repeated submission makes the server replay its first response.
+     * contactReceipt marks an answer replayed from the offline outbox with the last lease receipt issued before it was queued.
      */
-    async submitAnswer(sessionId: string, request: SubmitAnswerRequest): Promise<SessionResponse> {
+    async submitAnswer(sessionId: string, request: SubmitAnswerRequest, idempotencyKey: string, contactReceipt?: string | null): Promise<SessionResponse> {
         console.log(`[sessionService] submitAnswer sessionId: ${sessionId}, request:`, request);
         const { data } = await sessionClient.post<SessionResponse>(`/api/sessions/${sessionId}/submit`, {
-             candidateId: String(request.candidateId || "test-user"),
-             answerText: String(request.answerText || "")
+             ...request,
+             contactReceipt,
+        }, {
+            headers: { 'Idempotency-Key': idempotencyKey },
         });
         return data;
     },
 
+    /**
+     * Autosaves the unsubmitted answer for the current question.
+     */
+    async saveDraft(sessionId: string, questionId: string, answer: AnswerPayload): Promise<AnswerDraft> {
+        const { data } = await sessionClient.put<AnswerDraft>(`/api/sessions/${sessionId}/draft`, {
+            questionId,
+            answer,
+        });
+        return data;
+    },
+
+    /**
+     * Fetches the autosaved draft for the current question, or null if none exists.
+     */
+    async getDraft(sessionId: string): Promise<AnswerDraft | null> {
+        const { data } = await sessionClient.get<AnswerDraft | null>(`/api/sessions/${sessionId}/draft`);
+        return data;
+    },
+
     /**
      * Views session state/status overall.
      */
@@ -42,19 +98,38 @@ export const sessionService = {
     },
 
     /**
-     * Gets session final or summary results.
+     * Gets a short-lived token for opening the session's event stream, which cannot send the access token as a header.
+     */
+    async getStreamToken(sessionId: string): Promise<string> {
+        const { data } = await sessionClient.post<{ token: string }>(`/api/sessions/${sessionId}/stream-token`);
+        return data.token;
+    },
+
+    /**
+     * Gets session final or summary results, with per-question scores and timing,
+     * or only a confirmation when the results policy hides scores from the candidate.
+     */
+    async getResults(sessionId: string): Promise<SessionResults | SessionResultsConfirmation> {
+        const { data } = await sessionClient.get<SessionResults | SessionResultsConfirmation>(`/api/sessions/${sessionId}/results`);
+        return data;
+    },
+
+    /**
+     * Flags a session for reviewers without ending it, recording the proctoring risk score.
      */
-    async getResults(sessionId: string) {
-        const { data } = await sessionClient.get(`/api/sessions/${sessionId}/results`);
+    async flagSession(sessionId: string, riskScore: number): Promise<SessionResponse> {
+        const { data } = await sessionClient.post<SessionResponse>(`/api/sessions/${sessionId}/flag`, null, {
+            params: { riskScore }
+        });
         return data;
     },
 
     /**
-     * Terminates a session forcefully.
+     * Terminates a session forcefully, optionally recording the proctoring risk score.
      */
-    async terminateSession(sessionId: string, reason = "User requested") {
-        const { data } = await sessionClient.post(`/api/sessions/${sessionId}/terminate`, null, {
-            params: { reason }
+    async terminateSession(sessionId: string, reason = "User requested", riskScore?: number): Promise<SessionResponse> {
+        const { data } = await sessionClient.post<SessionResponse>(`/api/sessions/${sessionId}/terminate`, null, {
+            params: { reason, riskScore }
         });
         return data;
     }
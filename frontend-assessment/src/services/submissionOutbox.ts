@@ -0,0 +1,49 @@
+import type { SubmitAnswerRequest } from '../types/session';
+
+const OUTBOX_KEY = 'submission_outbox';
+
+export interface QueuedSubmission {
+    idempotencyKey: string;
+    sessionId: string;
+    questionId: string;
+    request: SubmitAnswerRequest;
+    contactReceipt: string | null; // Lease receipt held when the answer was queued; the server judges the deadline by it
+}
+
+const readOutbox = (): QueuedSubmission[] => {
+    try {
+        return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const writeOutbox = (outbox: QueuedSubmission[]) => {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+};
+
+export const submissionOutbox = {
+    /**
+     * Answers queued for a session while the API was unreachable, oldest first.
+     */
+    list(sessionId: string): QueuedSubmission[] {
+        return readOutbox().filter(item => item.sessionId === sessionId);
+    },
+
+    /**
+     * Queues a submission; a key that is already queued is ignored so retries never duplicate it.
+     */
+    enqueue(submission: QueuedSubmission) {
+        const outbox = readOutbox();
+        if (outbox.some(item => item.idempotencyKey === submission.idempotencyKey)) return;
+        writeOutbox([...outbox, submission]);
+    },
+
+    remove(idempotencyKey: string) {
+        writeOutbox(readOutbox().filter(item => item.idempotencyKey !== idempotencyKey));
+    },
+
+    clearSession(sessionId: string) {
+        writeOutbox(readOutbox().filter(item => item.sessionId !== sessionId));
+    },
+};
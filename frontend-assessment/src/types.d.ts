@@ -1,2 +1,7 @@
 declare module './assessment/DomainSelection';
 declare module './assessment/QuestionPage';
+
+interface ImportMetaEnv {
+    readonly VITE_API_BASE_URL?: string;
+    readonly VITE_SESSION_API_URL?: string;
+}
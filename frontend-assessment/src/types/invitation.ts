@@ -0,0 +1,28 @@
+// What an invitation link reveals before the candidate signs in
+export interface InvitationPreview {
+    email: string;
+    domain: string;
+    deadline: string; // ISO datetime
+    maxAttempts: number;
+}
+
+export interface Invitation extends InvitationPreview {
+    invitationId: number;
+    userId: number | null; // Set once a candidate account accepts the link
+    acceptedAt: string | null;
+    consumedAt: string | null; // Set when the invited assessment session starts
+    sessionId: string | null;
+    createdAt: string;
+}
+
+export interface InvitationCreateRequest {
+    email: string;
+    domain: string;
+    deadline: string; // ISO datetime
+    maxAttempts?: number;
+}
+
+export interface InvitationCreateResponse {
+    invitation: Invitation;
+    link: string;
+}
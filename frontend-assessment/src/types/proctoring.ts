@@ -0,0 +1,46 @@
+export type ViolationKind = 'blur' | 'fullscreen_exit' | 'context_menu' | 'restricted_key' | 'multi_touch' | 'session_takeover' | 'screen_share_stopped';
+
+export type ViolationSeverity = 'low' | 'medium' | 'high';
+
+export interface ProctoringEvent {
+    eventId: string;
+    sessionId: string;
+    kind: ViolationKind;
+    severity: ViolationSeverity;
+    questionIndex: number | null;
+    message: string;
+    timestamp: string; // ISO datetime
+}
+
+// Notes the client records for reviewers alongside its violations
+export type ClientNoteKind = 'screen_share_unverified';
+
+// Notes for reviewers, recorded by the session server or the client; never counted towards the violation score
+export type ReviewNoteKind = 'late_answer_accepted' | 'session_flagged' | ClientNoteKind;
+
+// An event the client queues and uploads: a violation or a client note
+export type ClientProctoringEvent = Omit<ProctoringEvent, 'kind'> & { kind: ViolationKind | ClientNoteKind };
+
+// An entry of a session's log as served to reviewers: client violations and notes
+export type LoggedProctoringEvent = Omit<ProctoringEvent, 'kind'> & { kind: ViolationKind | ReviewNoteKind };
+
+export interface ProctoringBatchResponse {
+    success: boolean;
+    received: number;
+    stored: number;
+}
+
+export type LimitAction = 'terminate' | 'flag';
+
+// What candidates see when the assessment ends: their scores, or only a confirmation
+export type ResultsVisibility = 'scores' | 'confirmation';
+
+export interface ProctoringPolicy {
+    policyId: string;
+    weights: Record<ViolationKind, number>; // Points added to the violation score per occurrence
+    graceWindowsMs: Record<ViolationKind, number>; // Repeats of the same kind inside this window are ignored
+    enabledListeners: Record<ViolationKind, boolean>;
+    maxScore: number;
+    onLimitReached: LimitAction;
+    resultsVisibility: ResultsVisibility;
+}
@@ -0,0 +1,63 @@
+import type { ChoiceOption, CodeTestCase, QuestionKind } from './session';
+
+export type QuestionStatus = 'active' | 'retired';
+
+export interface QuestionTestCase extends CodeTestCase {
+    hidden: boolean;
+}
+
+export interface QuestionInput {
+    text: string;
+    domain: string;
+    difficulty: number;
+    tags: string[];
+    rubric: string;
+    status?: QuestionStatus;
+    kind: QuestionKind;
+    options: ChoiceOption[]; // Choice kinds only
+    correctOptionIds: string[]; // Choice kinds only
+    acceptedAnswers: string[]; // short_text only; empty means the evaluator scores it
+    language: string | null; // code only
+    starterCode: string; // code only
+    entryPoint: string; // code only; function the test cases call
+    testCases: QuestionTestCase[]; // code only
+}
+
+// Admin view of a question, including the answer key and rubric that candidates never see
+export interface QuestionBankItem extends QuestionInput {
+    questionId: string;
+    status: QuestionStatus;
+    createdAt: string; // ISO datetime
+    updatedAt: string; // ISO datetime
+}
+
+export interface QuestionFilters {
+    domain?: string;
+    difficulty?: number;
+    status?: QuestionStatus;
+    tag?: string;
+    search?: string;
+}
+
+export type QuestionFileFormat = 'json' | 'csv';
+
+export type ImportRowStatus = 'valid' | 'duplicate' | 'invalid';
+
+export interface ImportRowResult {
+    row: number; // CSV line number or 1-based JSON array position
+    status: ImportRowStatus;
+    question: QuestionInput;
+    errors?: Record<string, string>;
+    duplicateOf?: string;
+}
+
+export interface QuestionImportReport {
+    success: boolean;
+    dryRun: boolean;
+    total: number;
+    valid: number;
+    imported: number;
+    duplicates: number;
+    invalid: number;
+    rows: ImportRowResult[];
+}
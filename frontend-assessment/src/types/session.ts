@@ -1,51 +1,235 @@
-export interface Question {
+export type QuestionKind = 'single_choice' | 'multi_choice' | 'code' | 'short_text' | 'long_text';
+
+export interface ChoiceOption {
+    optionId: string;
+    text: string;
+}
+
+interface QuestionBase {
     questionId: string;
     text: string;
     difficulty: number;
+    domain?: string;
+    tags?: string[];
+}
+
+export interface SingleChoiceQuestion extends QuestionBase {
+    kind: 'single_choice';
+    options: ChoiceOption[];
+}
+
+export interface MultiChoiceQuestion extends QuestionBase {
+    kind: 'multi_choice';
+    options: ChoiceOption[];
+}
+
+export interface CodeTestCase {
+    testId: string;
+    input: unknown[]; // Arguments passed to the entry point
+    expected: unknown;
+}
+
+export interface TestCaseResult {
+    testId: string;
+    hidden: boolean; // Hidden cases only report pass/fail, never their input or output
+    passed: boolean;
+    runtimeMs: number;
+    actual?: unknown;
+    error?: string;
+}
+
+export interface CodeQuestion extends QuestionBase {
+    kind: 'code';
+    language: string;
+    starterCode?: string;
+    entryPoint?: string; // Function the test cases call
+    testCases?: CodeTestCase[]; // Visible cases only; hidden cases run server-side on submit
+}
+
+export interface ShortTextQuestion extends QuestionBase {
+    kind: 'short_text';
+}
+
+export interface LongTextQuestion extends QuestionBase {
+    kind: 'long_text';
+}
+
+// Discriminated on `kind`; answer keys never reach the candidate
+export type Question = SingleChoiceQuestion | MultiChoiceQuestion | CodeQuestion | ShortTextQuestion | LongTextQuestion;
+
+// Answer payload for each question kind, discriminated the same way
+export type AnswerPayload =
+    | { kind: 'single_choice'; selectedOptionId: string }
+    | { kind: 'multi_choice'; selectedOptionIds: string[] }
+    | { kind: 'code'; language: string; code: string; testResults?: TestCaseResult[] }
+    | { kind: 'short_text'; text: string }
+    | { kind: 'long_text'; text: string };
+
+export interface AnswerDraft {
+    questionId: string;
+    answer: AnswerPayload;
+    savedAt: string; // ISO datetime
 }
 
 export interface Answer {
     questionId: string;
+    kind: QuestionKind;
     text: string;
     score: number;
     feedback: string;
+    testResults?: TestCaseResult[]; // Code answers: server-side run over visible and hidden cases
 }
 
 export interface AssessmentSession {
     sessionId: string;
     dbSessionId?: number;
     candidateId: string;
+    domain: string;
+    assessmentTemplateId?: string | null;
     startTime: string; // ISO datetime
     currentQuestionIndex: number;
     status: 'active' | 'completed' | 'terminated' | 'timeout';
     questionStartTime: string; // ISO datetime
+    timeLimitSeconds: number;
+    questionTimeLimitSeconds?: number | null;
     score: number;
 }
 
 export interface SessionCreateRequest {
-    candidateId: string;
+    domain: string;
+    assessmentTemplateId?: string;
 }
 
-export interface SubmitAnswerRequest {
-    candidateId: string;
-    answerText: string;
+export interface AttemptStatus {
+    domain: string;
+    attemptsUsed: number;
+    maxAttempts: number;
+    attemptsRemaining: number;
+    retryAfterSeconds: number; // Cooldown left before the next attempt may start
+    canStart: boolean;
+}
+
+export type AttemptBlockCode = 'NO_ATTEMPTS_REMAINING' | 'RETAKE_COOLDOWN' | 'INVITATION_EXPIRED';
+
+// Why the server refused to start another attempt
+export interface AttemptBlock {
+    code: AttemptBlockCode;
+    message: string;
+    retryAt: number | null; // Epoch ms when the cooldown ends
 }
 
+export type SubmitAnswerRequest =
+    | { answer: AnswerPayload; skipped?: false }
+    | { skipped: true };
+
 export interface SessionResponse {
     sessionId: string;
     candidateId: string;
+    domain?: string | null;
     status: string;
     currentQuestionIndex: number;
+    accepted?: boolean; // false when a submission was refused; the submit endpoint reports those as a 403
+    message: string;
+}
+
+// A submitted or queued answer the server refused, shown so the candidate knows it did not count
+export interface RejectedSubmission {
+    questionId: string;
     message: string;
 }
 
 export interface SessionStatus {
     sessionId: string;
     candidateId: string;
+    domain: string;
+    assessmentTemplateId?: string | null;
     status: string;
     currentQuestionIndex: number;
-    score: number;
     timeStarted: string;
     questionStartTime: string;
-    remainingTimeSeconds?: number;
+    remainingTimeSeconds?: number; // Time left on the current question, bounded by the overall budget
+    assessmentRemainingSeconds?: number;
+    questionRemainingSeconds?: number | null; // null when questions have no cap of their own
+    timeLimitSeconds?: number;
+    questionTimeLimitSeconds?: number | null;
+    terminationReason?: string | null;
+}
+
+// Remaining time pushed by the session event stream between status changes
+export type SessionTick = Pick<SessionStatus, 'remainingTimeSeconds' | 'assessmentRemainingSeconds' | 'questionRemainingSeconds'>;
+
+export interface ExtraTimeGrant {
+    seconds: number;
+    reason?: string | null;
+    grantedAt: string;
+}
+
+export interface ProctorMessage {
+    message: string;
+    sentAt: string;
+}
+
+export interface TerminationNotice {
+    reason: string;
+    riskScore: number;
+}
+
+export interface SessionLease {
+    granted: boolean;
+    leaseId: string | null;
+    tookOver: boolean; // A live lease held by another tab or device was replaced
+    expiresInSeconds: number;
+    receipt: string | null; // Server-signed proof of contact, attached to answers queued while offline
 }
+
+// 'elsewhere': another tab or device holds the session; 'revoked': it was taken over from this one
+export type LeaseState = 'idle' | 'acquiring' | 'held' | 'elsewhere' | 'revoked';
+
+export type SessionChannelState = 'connecting' | 'live' | 'polling' | 'closed';
+
+export type SessionChannelEvent =
+    | { type: 'status'; data: SessionStatus }
+    | { type: 'tick'; data: SessionTick }
+    | { type: 'terminated'; data: TerminationNotice }
+    | { type: 'extra_time'; data: ExtraTimeGrant }
+    | { type: 'message'; data: ProctorMessage }
+    | { type: 'taken_over'; data: Record<string, never> } // Carries no lease id; holders confirm theirs with a heartbeat
+    | { type: 'connection'; state: SessionChannelState };
+
+export interface QuestionResult {
+    questionId: string;
+    text: string;
+    kind: QuestionKind;
+    difficulty: number;
+    score: number;
+    feedback: string;
+    timeSpentSeconds: number | null;
+    testResults: TestCaseResult[];
+}
+
+// All a candidate receives when the results policy hides scores; the server leaves out scores and feedback
+export interface SessionResultsConfirmation {
+    sessionId: string;
+    candidateId: string;
+    domain: string;
+    status: AssessmentSession['status'];
+    questionsAttempted: number;
+    totalQuestions: number;
+    startTime: string; // ISO datetime
+    endTime: string | null; // ISO datetime
+    terminationReason: string | null;
+    resultsVisibility: 'confirmation';
+}
+
+export interface SessionResults extends Omit<SessionResultsConfirmation, 'resultsVisibility'> {
+    resultsVisibility: 'scores';
+    finalScore: number;
+    maxScore: number;
+    riskScore: number;
+    flaggedForReview: boolean; // The proctoring limit was reached under a policy that flags instead of terminating
+    difficultyProgression: number[]; // Difficulty of each answered question, in order
+    questions: QuestionResult[];
+}
+
+// Machine-readable reasons recorded when a session is ended early
+export type TerminationReason = 'PROCTORING_LIMIT_EXCEEDED' | 'ADMIN_REQUESTED';
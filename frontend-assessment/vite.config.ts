@@ -10,7 +10,8 @@ export default defineConfig({
   ],
   server: {
     proxy: {
-      '/api': 'http://localhost:5000',
+      // xfwd passes the browser's address through so login throttling can key on it
+      '/api': { target: 'http://localhost:5000', xfwd: true },
     },
   },
 })
@@ -1,6 +1,9 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { Camera, CameraOff, Mic, MicOff, PhoneOff, User, AlertCircle, Sun, Moon, Monitor, MonitorOff } from 'lucide-react';
 
+// Legacy standalone dashboard: the assessment app loads its limits from the proctoring policy API
+const MAX_VIOLATIONS = 3;
+
 /**
  * Premium Interview Dashboard - Google Meet Style
  */
@@ -118,7 +121,7 @@ export default function InterviewDashboard() {
 
         setViolations(v => {
             const next = v + 1;
-            if (next >= 3) {
+            if (next >= MAX_VIOLATIONS) {
                 // Auto-terminate
                 stopTracks();
                 window.location.reload();
@@ -422,7 +425,7 @@ export default function InterviewDashboard() {
                         <div className="w-16 h-16 bg-red-500/10 rounded-full flex items-center justify-center mx-auto mb-6">
                             <AlertCircle className="w-8 h-8 text-red-500" />
                         </div>
-                        <h3 className="text-xl font-bold text-[var(--accent-red)] mb-2">Warning: {violations}/3</h3>
+                        <h3 className="text-xl font-bold text-[var(--accent-red)] mb-2">Warning: {violations}/{MAX_VIOLATIONS}</h3>
                         <p className="text-[var(--text-primary)] font-bold text-sm mb-8 leading-relaxed">{warningMsg}</p>
                         <button
                             onClick={enterFullscreen}